@@ -0,0 +1,49 @@
+import { prisma } from "../src/utils/prisma";
+import { toGrantAmountFields } from "../src/utils/grantAmount";
+
+// 기존 지원사업의 amount 문자열을 파싱해 amountMin/amountMax 를 채움
+// 사용법: npm run grants:backfill-amounts [-- --dry-run]
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  const grants = await prisma.grant.findMany({
+    where: { amount: { not: null } },
+    select: { id: true, title: true, amount: true, amountMin: true, amountMax: true },
+  });
+
+  console.log(`💰 Backfilling amounts for ${grants.length} grants${dryRun ? " (dry-run)" : ""}...`);
+
+  let updated = 0;
+  let unparsed = 0;
+
+  for (const grant of grants) {
+    const fields = toGrantAmountFields(grant.amount);
+
+    if (fields.amountMin === null && fields.amountMax === null) {
+      unparsed++;
+      console.log(`  ⚠️  could not parse "${grant.amount}" (${grant.title})`);
+      continue;
+    }
+
+    if (fields.amountMin === grant.amountMin && fields.amountMax === grant.amountMax) {
+      continue;
+    }
+
+    console.log(`  ✏️  "${grant.amount}" → ${fields.amountMin ?? "-"} ~ ${fields.amountMax ?? "-"}`);
+    if (!dryRun) {
+      await prisma.grant.update({ where: { id: grant.id }, data: fields });
+    }
+    updated++;
+  }
+
+  console.log(`✅ updated ${updated}, unparsed ${unparsed}${dryRun ? " (nothing committed)" : ""}`);
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Backfill failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
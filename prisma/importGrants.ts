@@ -0,0 +1,59 @@
+import fs from "fs";
+import path from "path";
+import { prisma } from "../src/utils/prisma";
+import {
+  GrantImportFormat,
+  importGrants,
+  parseGrantFile,
+} from "../src/utils/grantImport";
+
+// 사용법: npm run grants:import -- <파일.csv|파일.json> [--dry-run]
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const filePath = args.find((arg) => !arg.startsWith("--"));
+
+  if (!filePath) {
+    console.error("Usage: npm run grants:import -- <file.csv|file.json> [--dry-run]");
+    process.exit(1);
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension !== ".csv" && extension !== ".json") {
+    console.error("❌ CSV 또는 JSON 파일만 지원합니다.");
+    process.exit(1);
+  }
+
+  const format = extension.slice(1) as GrantImportFormat;
+  const content = fs.readFileSync(filePath, "utf-8");
+  const records = parseGrantFile(content, format);
+
+  console.log(
+    `📥 Importing ${records.length} grants from ${filePath}${dryRun ? " (dry-run)" : ""}...`
+  );
+
+  const report = await importGrants(records, { dryRun, format });
+
+  for (const row of report.rows) {
+    if (row.action === "error") {
+      const messages = row.errors!.map((e) => `${e.field}: ${e.message}`).join(", ");
+      console.log(`  ❌ row ${row.row} [${row.externalId ?? "-"}] ${messages}`);
+    } else {
+      console.log(`  ${row.action === "create" ? "➕" : "✏️"} row ${row.row} [${row.externalId}] ${row.title}`);
+    }
+  }
+
+  const { total, created, updated, failed } = report.summary;
+  console.log(
+    `✅ total ${total}, created ${created}, updated ${updated}, failed ${failed}${dryRun ? " (nothing committed)" : ""}`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Import failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
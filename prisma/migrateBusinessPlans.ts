@@ -0,0 +1,92 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../src/utils/prisma";
+import {
+  migrateBusinessPlanContent,
+  migrateBusinessPlanData,
+  validateBusinessPlanContent,
+  validateBusinessPlanData,
+} from "../src/utils/businessPlanSchema";
+
+const BATCH_SIZE = 100;
+
+// 저장된 사업계획서 content/data 를 현재 스키마 버전으로 변환
+// 변환 후에도 검증에 실패하는 사업계획서는 건드리지 않고 목록만 출력
+// 사용법: npm run business-plans:migrate [-- --dry-run]
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  console.log(`🗂️  Migrating business plan content/data${dryRun ? " (dry-run)" : ""}...`);
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let migrated = 0;
+  let invalid = 0;
+  let skipped = 0;
+
+  for (;;) {
+    const plans = await prisma.businessPlan.findMany({
+      select: { id: true, title: true, content: true, data: true, version: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (plans.length === 0) break;
+    cursor = plans[plans.length - 1]!.id;
+
+    for (const plan of plans) {
+      scanned++;
+      const content = migrateBusinessPlanContent(plan.content);
+      const data = migrateBusinessPlanData(plan.data);
+
+      if (
+        JSON.stringify(content) === JSON.stringify(plan.content) &&
+        JSON.stringify(data) === JSON.stringify(plan.data)
+      ) {
+        continue;
+      }
+
+      const errors = [
+        ...validateBusinessPlanContent(content),
+        ...validateBusinessPlanData(data),
+      ];
+      if (errors.length > 0) {
+        invalid++;
+        console.log(`  ⚠️  ${plan.id} (${plan.title})`);
+        for (const error of errors.slice(0, 5)) {
+          console.log(`      ${error.field}: ${error.message}`);
+        }
+        continue;
+      }
+
+      if (!dryRun) {
+        // 그 사이 사용자가 수정했다면 건너뜀 (다음 실행 때 다시 변환)
+        const { count } = await prisma.businessPlan.updateMany({
+          where: { id: plan.id, version: plan.version },
+          data: {
+            content: content as Prisma.InputJsonObject,
+            data: data as Prisma.InputJsonObject,
+            version: { increment: 1 },
+          },
+        });
+        if (count === 0) {
+          skipped++;
+          continue;
+        }
+      }
+      migrated++;
+    }
+  }
+
+  console.log(
+    `✅ scanned ${scanned}, migrated ${migrated}, invalid ${invalid}, skipped ${skipped}${dryRun ? " (nothing committed)" : ""}`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Migration failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
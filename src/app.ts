@@ -21,11 +21,31 @@ import paymentRequestsRoutes from "./routes/paymentRequests.routes";
 
 // 미들웨어 임포트
 import { errorHandler } from "./middlewares/error.middleware";
+import { GRANT_IMPORT_BODY_LIMIT } from "./utils/grantImport";
+
+// 스케줄 작업 임포트
+import { startGrantStatusJob } from "./jobs/grantStatus.job";
+import { startGrantReminderJob } from "./jobs/grantReminder.job";
+import { startBusinessPlanGenerationJob } from "./jobs/businessPlanGeneration.job";
+import { startBusinessPlanDraftCleanupJob } from "./jobs/businessPlanDraftCleanup.job";
 
 const app = express();
 const PORT = parseInt(process.env.PORT || "3001", 10);
 const HOST = "0.0.0.0";
 
+// 프록시(Railway 등) 뒤에서 req.ip 로 실제 클라이언트 IP 를 얻기 위한 설정
+// - TRUST_PROXY: 프록시 홉 수(숫자), true/false, 또는 신뢰할 주소 목록(콤마 구분)
+// - 미설정 시 운영 환경은 프록시 1단계, 그 외에는 신뢰하지 않음
+const parseTrustProxy = (value: string | undefined): boolean | number | string => {
+  const trimmed = value?.trim();
+  if (!trimmed) return process.env.NODE_ENV === "production" ? 1 : false;
+  if (trimmed === "true") return true;
+  if (trimmed === "false") return false;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+  return trimmed;
+};
+app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY));
+
 // 허용된 Origin 목록 (FRONTEND_URL이 콤마로 구분된 경우 처리)
 const frontendUrls = (process.env.FRONTEND_URL || "")
   .split(",")
@@ -52,9 +72,13 @@ app.use(
       }
     },
     credentials: true,
+    // 사업계획서 동시 수정 충돌 방지용 (If-Match)
+    exposedHeaders: ["ETag"],
   })
 );
 app.use(morgan(process.env.NODE_ENV === "production" ? "combined" : "dev"));
+// 지원사업 일괄 가져오기 JSON 은 CSV 와 같은 크기까지 허용 (전역 파서보다 먼저 등록)
+app.use("/api/grants/import", express.json({ limit: GRANT_IMPORT_BODY_LIMIT }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -87,6 +111,11 @@ app.use(errorHandler);
 app.listen(PORT, HOST, () => {
   console.log(`🚀 Server is running on http://${HOST}:${PORT}`);
   console.log(`Environment: ${process.env.NODE_ENV || "development"}`);
+
+  startGrantStatusJob();
+  startGrantReminderJob();
+  void startBusinessPlanGenerationJob();
+  startBusinessPlanDraftCleanupJob();
 });
 
 export default app;
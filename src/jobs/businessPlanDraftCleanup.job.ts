@@ -0,0 +1,29 @@
+import { deleteExpiredDrafts } from "../utils/businessPlanClaims";
+
+// 서버 내 주기 실행 (BUSINESS_PLAN_DRAFT_CLEANUP_INTERVAL_MINUTES=0 이면 비활성화)
+export const startBusinessPlanDraftCleanupJob = () => {
+  const intervalMinutes = parseInt(
+    process.env.BUSINESS_PLAN_DRAFT_CLEANUP_INTERVAL_MINUTES || "60",
+    10
+  );
+
+  if (!intervalMinutes || intervalMinutes <= 0) {
+    console.log("⏸️  Business plan draft cleanup job disabled");
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const deleted = await deleteExpiredDrafts();
+      if (deleted > 0) {
+        console.log(`🧹 Deleted ${deleted} expired unclaimed business plan drafts`);
+      }
+    } catch (error) {
+      console.error("Business plan draft cleanup job failed:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+};
@@ -0,0 +1,273 @@
+import { EventEmitter } from "events";
+import { prisma } from "../utils/prisma";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+} from "../middlewares/error.middleware";
+import { formatBusinessPlan, saveBusinessPlan } from "../utils/businessPlans";
+import {
+  migrateBusinessPlanData,
+  prepareBusinessPlanJson,
+} from "../utils/businessPlanSchema";
+import { BusinessPlanDataSection } from "../types";
+import { GenerationInput, getGenerationProvider } from "../services/generation";
+
+// 저장 중 다른 수정과 충돌했을 때 재시도 횟수
+const MAX_SAVE_ATTEMPTS = 3;
+
+const GENERIC_ERROR_MESSAGE = "사업계획서 생성 중 오류가 발생했습니다.";
+
+// 실행 중인 작업의 heartbeat 갱신 주기, 중단된 작업으로 보는 기준
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const STALE_JOB_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+// 중단된 작업 정리 주기
+const STALE_JOB_CHECK_INTERVAL_MS = 60 * 1000;
+
+// 생성 진행 알림 (SSE 로 전달, type 이 이벤트 이름)
+// - progress: 섹션 생성 시작, text: 부분 텍스트, section: 섹션 생성 완료
+// - done: 저장된 사업계획서, error: 실패 사유와 이용권 반환 여부
+export type GenerationJobEvent =
+  | { type: "progress"; key: string; title: string; index: number; total: number }
+  | { type: "text"; key: string; delta: string }
+  | { type: "section"; key: string; section: BusinessPlanDataSection }
+  | { type: "done"; businessPlan: ReturnType<typeof formatBusinessPlan> }
+  | { type: "error"; message: string; refunded: boolean };
+
+// 실행 중인 작업의 진행 상황 (중간에 구독한 클라이언트에게 전달)
+export interface GenerationProgress {
+  total: number;
+  completedSections: string[];
+  currentSection: string | null;
+}
+
+const events = new EventEmitter();
+events.setMaxListeners(0);
+const progress = new Map<string, GenerationProgress>();
+
+const emit = (jobId: string, event: GenerationJobEvent) => events.emit(jobId, event);
+
+// 작업 진행 알림 구독 (반환된 함수로 구독 해제)
+export const subscribeGenerationJob = (
+  jobId: string,
+  listener: (event: GenerationJobEvent) => void
+) => {
+  events.on(jobId, listener);
+  return () => {
+    events.off(jobId, listener);
+  };
+};
+
+export const getGenerationProgress = (jobId: string) => progress.get(jobId) ?? null;
+
+// 생성한 섹션을 사업계획서 data 에 저장하고 이용권 차감 (한 트랜잭션)
+// 생성 중 사용자가 수정했다면 최신 버전을 다시 읽어 생성한 섹션만 덮어씀
+const saveGeneratedSections = async (
+  jobId: string,
+  sections: Record<string, BusinessPlanDataSection>
+) => {
+  for (let attempt = 1; ; attempt++) {
+    const job = await prisma.businessPlanGenerationJob.findUniqueOrThrow({
+      where: { id: jobId },
+      include: { businessPlan: true },
+    });
+    const { businessPlan } = job;
+    const current = migrateBusinessPlanData(businessPlan.data) as Record<string, any>;
+
+    const { data } = prepareBusinessPlanJson({
+      data: { ...current, sections: { ...current.sections, ...sections } },
+    });
+
+    try {
+      return await saveBusinessPlan(businessPlan, job.userId, { data }, {
+        onSaved: async (tx, saved) => {
+          const { count } = await tx.user.updateMany({
+            where: { id: job.userId, credits: { gte: job.creditCost } },
+            data: { credits: { decrement: job.creditCost } },
+          });
+          if (count === 0) {
+            throw new BadRequestError("이용권이 부족합니다.");
+          }
+
+          await tx.creditHistory.create({
+            data: {
+              userId: job.userId,
+              type: "use",
+              amount: -job.creditCost,
+              description: `사업계획서 생성: ${saved.title}`.slice(0, 200),
+              businessPlanId: saved.id,
+            },
+          });
+
+          // 이미 실패로 정리된 작업이면 저장과 차감을 모두 되돌림
+          const now = new Date();
+          const updated = await tx.businessPlanGenerationJob.updateMany({
+            where: { id: jobId, status: "running" },
+            data: { status: "succeeded", activeKey: null, chargedAt: now, finishedAt: now },
+          });
+          if (updated.count === 0) {
+            throw new AppError("생성 작업이 이미 종료되었습니다.", 409);
+          }
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof ConflictError) || attempt >= MAX_SAVE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+// 생성 작업 실행 (queued 인 작업만, 실패하면 이용권 차감 없이 failed 로 기록)
+export const runGenerationJob = async (jobId: string) => {
+  const startedAt = new Date();
+  const { count } = await prisma.businessPlanGenerationJob.updateMany({
+    where: { id: jobId, status: "queued" },
+    data: { status: "running", startedAt, heartbeatAt: startedAt },
+  });
+  if (count === 0) return;
+
+  // 실행하는 동안 heartbeat 갱신 (다른 인스턴스가 중단된 작업으로 정리하지 않도록)
+  const heartbeat = setInterval(() => {
+    prisma.businessPlanGenerationJob
+      .updateMany({
+        where: { id: jobId, status: "running" },
+        data: { heartbeatAt: new Date() },
+      })
+      .catch((error) => console.error(`Generation job ${jobId} heartbeat failed:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  try {
+    const job = await prisma.businessPlanGenerationJob.findUniqueOrThrow({
+      where: { id: jobId },
+    });
+    const input = job.input as unknown as GenerationInput;
+    const provider = getGenerationProvider();
+    const state: GenerationProgress = {
+      total: input.sections.length,
+      completedSections: [],
+      currentSection: null,
+    };
+    progress.set(jobId, state);
+
+    // 섹션 순서대로 하나씩 생성
+    const sections: Record<string, BusinessPlanDataSection> = {};
+    for (const [index, section] of input.sections.entries()) {
+      const { key, title } = section;
+      state.currentSection = key;
+      emit(jobId, { type: "progress", key, title, index, total: state.total });
+
+      sections[key] = await provider.generateSection(input, section, {
+        onText: (delta) => emit(jobId, { type: "text", key, delta }),
+      });
+
+      state.completedSections.push(key);
+      emit(jobId, { type: "section", key, section: sections[key]! });
+    }
+
+    const saved = await saveGeneratedSections(jobId, sections);
+    emit(jobId, { type: "done", businessPlan: formatBusinessPlan(saved) });
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      console.error(`Business plan generation job ${jobId} failed:`, error);
+    }
+
+    const message = error instanceof AppError ? error.message : GENERIC_ERROR_MESSAGE;
+    // 저장 이후 오류라면 이미 성공으로 기록된 작업이므로 실패로 바꾸지 않음
+    await prisma.businessPlanGenerationJob.updateMany({
+      where: { id: jobId, status: "running" },
+      data: { status: "failed", activeKey: null, error: message, finishedAt: new Date() },
+    });
+
+    // 실패로 기록된 작업만 알림 (중단된 작업으로 먼저 정리되었으면 그 사유로)
+    // 이용권은 저장과 같은 트랜잭션에서만 차감하므로 차감 기록이 없으면 반환된 상태
+    const job = await prisma.businessPlanGenerationJob.findUniqueOrThrow({
+      where: { id: jobId },
+    });
+    if (job.status !== "failed") return;
+    emit(jobId, {
+      type: "error",
+      message: job.error ?? message,
+      refunded: job.chargedAt === null,
+    });
+  } finally {
+    clearInterval(heartbeat);
+    progress.delete(jobId);
+  }
+};
+
+// 동시에 실행할 작업 수 (환경변수로 조정, 기본 2)
+const getGenerationConcurrency = () =>
+  Math.max(parseInt(process.env.GENERATION_CONCURRENCY || "2", 10) || 1, 1);
+
+// 서버 내 작업 큐 (등록 순서대로 최대 GENERATION_CONCURRENCY 개씩 실행)
+// 프로세스 하나에서만 동작하므로 여러 인스턴스로 띄우면 인스턴스별로 따로 실행됨
+const pending: string[] = [];
+let running = 0;
+
+const drainQueue = () => {
+  while (running < getGenerationConcurrency() && pending.length > 0) {
+    const jobId = pending.shift()!;
+    running++;
+    runGenerationJob(jobId)
+      .catch((error) => console.error("Business plan generation queue failed:", error))
+      .finally(() => {
+        running--;
+        drainQueue();
+      });
+  }
+};
+
+export const enqueueGenerationJob = (jobId: string) => {
+  pending.push(jobId);
+  drainQueue();
+};
+
+// heartbeat 가 끊긴 running 작업 실패 처리 (실행하던 서버가 종료된 작업, 이용권 차감 없음)
+// 다른 인스턴스나 배포 중인 이전 서버에서 실행 중인 작업은 heartbeat 가 갱신되므로 제외됨
+const failStaleGenerationJobs = async (now: Date = new Date()) => {
+  const staleBefore = new Date(now.getTime() - STALE_JOB_TIMEOUT_MS);
+  const interrupted = await prisma.businessPlanGenerationJob.updateMany({
+    where: {
+      status: "running",
+      OR: [
+        { heartbeatAt: { lt: staleBefore } },
+        { heartbeatAt: null, startedAt: { lt: staleBefore } },
+      ],
+    },
+    data: {
+      status: "failed",
+      activeKey: null,
+      error: "서버 재시작으로 생성이 중단되었습니다. 다시 시도해주세요.",
+      finishedAt: now,
+    },
+  });
+  if (interrupted.count > 0) {
+    console.log(`⚠️  Marked ${interrupted.count} interrupted generation jobs as failed`);
+  }
+};
+
+// 서버 시작 시 이전 실행에서 남은 작업 정리
+// - running: heartbeat 가 끊긴 작업만 실패 처리 (이후에도 주기적으로 확인)
+// - queued: 다시 큐에 넣음 (여러 서버가 넣어도 queued → running 전환은 한 곳에서만 성공)
+export const startBusinessPlanGenerationJob = async () => {
+  setInterval(() => {
+    failStaleGenerationJobs().catch((error) =>
+      console.error("Business plan generation stale job check failed:", error)
+    );
+  }, STALE_JOB_CHECK_INTERVAL_MS).unref();
+
+  try {
+    await failStaleGenerationJobs();
+
+    const queued = await prisma.businessPlanGenerationJob.findMany({
+      where: { status: "queued" },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    });
+    queued.forEach((job) => enqueueGenerationJob(job.id));
+  } catch (error) {
+    console.error("Business plan generation job recovery failed:", error);
+  }
+};
@@ -0,0 +1,157 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { getDeadlineInfo, getKstStartOfDay } from "../utils/grantDeadline";
+import {
+  MAX_REMINDER_DAY,
+  getDueReminderDay,
+  resolveReminderSetting,
+} from "../utils/reminderSettings";
+import { getGrantPageUrl } from "../utils/urls";
+import { getNotificationChannel } from "../services/notifications";
+
+// 실패한 알림 최대 재시도 횟수
+const MAX_ATTEMPTS = 3;
+
+// 알림 발송 권한 확보 (발송 내역 unique 제약으로 중복 발송 방지)
+// - 내역이 없으면 pending 으로 생성
+// - 실패 내역은 재시도 횟수 내에서만 pending 으로 전환
+const claimDelivery = async (
+  userId: string,
+  grantId: string,
+  daysBefore: number,
+  channel: string
+) => {
+  try {
+    return await prisma.reminderDelivery.create({
+      data: { userId, grantId, daysBefore, channel },
+    });
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.reminderDelivery.findUnique({
+    where: { userId_grantId_daysBefore: { userId, grantId, daysBefore } },
+  });
+
+  if (!existing || existing.status !== "failed" || existing.attempts >= MAX_ATTEMPTS) {
+    return null;
+  }
+
+  const claimed = await prisma.reminderDelivery.updateMany({
+    where: { id: existing.id, status: "failed" },
+    data: { status: "pending", channel, attempts: { increment: 1 } },
+  });
+
+  return claimed.count === 1 ? existing : null;
+};
+
+// 찜한 지원사업의 마감 알림 발송
+export const sendDueReminders = async (now: Date = new Date()) => {
+  const channel = getNotificationChannel();
+
+  const favorites = await prisma.favoriteGrant.findMany({
+    where: {
+      grant: {
+        status: "open",
+        deadline: {
+          gte: getKstStartOfDay(now),
+          lte: new Date(now.getTime() + (MAX_REMINDER_DAY + 1) * 24 * 60 * 60 * 1000),
+        },
+      },
+    },
+    include: {
+      grant: true,
+      user: { include: { reminderSetting: true } },
+    },
+  });
+
+  let sent = 0;
+
+  for (const favorite of favorites) {
+    const { grant, user } = favorite;
+    const setting = resolveReminderSetting(user.reminderSetting);
+
+    // 카카오 임시 이메일은 수신 불가
+    if (!setting.enabled || user.email.endsWith("@kakao.local")) continue;
+
+    const { daysLeft } = getDeadlineInfo(grant.deadline, grant.status, now);
+    if (daysLeft === null) continue;
+
+    const daysBefore = getDueReminderDay(daysLeft, setting.daysBefore);
+    if (daysBefore === null) continue;
+
+    const delivery = await claimDelivery(user.id, grant.id, daysBefore, channel.name);
+    if (!delivery) continue;
+
+    const deadline = grant.deadline!.toLocaleDateString("ko-KR", {
+      timeZone: "Asia/Seoul",
+    });
+    const dDay = daysLeft === 0 ? "D-Day" : `D-${daysLeft}`;
+
+    try {
+      await channel.send({
+        to: user.email,
+        subject: `[Zerocraft] 찜한 지원사업 마감 ${dDay}: ${grant.title}`,
+        text: [
+          `${user.name}님, 찜한 지원사업의 마감이 다가오고 있습니다.`,
+          "",
+          `지원사업: ${grant.title}`,
+          `주관기관: ${grant.organization}`,
+          `마감일: ${deadline} (${dDay})`,
+          ...(grant.applicationMethod ? [`신청방법: ${grant.applicationMethod}`] : []),
+          "",
+          `자세히 보기: ${getGrantPageUrl(grant.id)}`,
+        ].join("\n"),
+      });
+
+      await prisma.reminderDelivery.update({
+        where: { id: delivery.id },
+        data: { status: "sent", sentAt: new Date(), error: null },
+      });
+      sent++;
+    } catch (error) {
+      await prisma.reminderDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  return sent;
+};
+
+// 서버 내 주기 실행 (GRANT_REMINDER_JOB_INTERVAL_MINUTES=0 이면 비활성화)
+export const startGrantReminderJob = () => {
+  const intervalMinutes = parseInt(
+    process.env.GRANT_REMINDER_JOB_INTERVAL_MINUTES || "60",
+    10
+  );
+
+  if (!intervalMinutes || intervalMinutes <= 0) {
+    console.log("⏸️  Grant reminder job disabled");
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const sent = await sendDueReminders();
+      if (sent > 0) {
+        console.log(`🔔 Sent ${sent} grant deadline reminders`);
+      }
+    } catch (error) {
+      console.error("Grant reminder job failed:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+};
@@ -0,0 +1,46 @@
+import { prisma } from "../utils/prisma";
+import { getKstStartOfDay } from "../utils/grantDeadline";
+
+// 마감일이 지난 모집 중 지원사업을 마감 처리 (한국 시간 기준 마감일 다음 날부터)
+export const closeExpiredGrants = async (now: Date = new Date()) => {
+  const result = await prisma.grant.updateMany({
+    where: {
+      status: "open",
+      deadline: { lt: getKstStartOfDay(now) },
+    },
+    data: {
+      status: "closed",
+      closedAt: now,
+    },
+  });
+
+  return result.count;
+};
+
+// 서버 내 주기 실행 (GRANT_STATUS_JOB_INTERVAL_MINUTES=0 이면 비활성화)
+export const startGrantStatusJob = () => {
+  const intervalMinutes = parseInt(
+    process.env.GRANT_STATUS_JOB_INTERVAL_MINUTES || "60",
+    10
+  );
+
+  if (!intervalMinutes || intervalMinutes <= 0) {
+    console.log("⏸️  Grant status job disabled");
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const closed = await closeExpiredGrants();
+      if (closed > 0) {
+        console.log(`⏰ Closed ${closed} expired grants`);
+      }
+    } catch (error) {
+      console.error("Grant status job failed:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+};
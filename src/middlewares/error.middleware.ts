@@ -4,11 +4,17 @@ import { Request, Response, NextFunction } from "express";
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  details?: Record<string, unknown>;
 
-  constructor(message: string, statusCode: number) {
+  constructor(
+    message: string,
+    statusCode: number,
+    details?: Record<string, unknown>
+  ) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.details = details;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -21,6 +27,18 @@ export class BadRequestError extends AppError {
   }
 }
 
+// 400 필드 단위 검증 오류 (validate 미들웨어와 같은 응답 형식)
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export class ValidationError extends AppError {
+  constructor(errors: FieldError[], message: string = "잘못된 요청입니다.") {
+    super(message, 400, { errors });
+  }
+}
+
 // 401 Unauthorized
 export class UnauthorizedError extends AppError {
   constructor(message: string = "인증되지 않은 사용자입니다.") {
@@ -42,10 +60,23 @@ export class NotFoundError extends AppError {
   }
 }
 
-// 409 Conflict
+// 409 Conflict (details 로 현재 서버 상태 등 추가 정보 전달 가능)
 export class ConflictError extends AppError {
-  constructor(message: string = "이미 존재하는 리소스입니다.") {
-    super(message, 409);
+  constructor(
+    message: string = "이미 존재하는 리소스입니다.",
+    details?: Record<string, unknown>
+  ) {
+    super(message, 409, details);
+  }
+}
+
+// 429 Too Many Requests
+export class TooManyRequestsError extends AppError {
+  constructor(
+    message: string = "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+    details?: Record<string, unknown>
+  ) {
+    super(message, 429, details);
   }
 }
 
@@ -62,6 +93,7 @@ export const errorHandler = (
   if (err instanceof AppError) {
     return res.status(err.statusCode).json({
       message: err.message,
+      ...err.details,
     });
   }
 
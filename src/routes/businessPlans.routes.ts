@@ -1,7 +1,10 @@
-import { Router, Request, Response } from "express";
-import { Document, Packer, Paragraph, TextRun, HeadingLevel } from "docx";
+import express, { Router, Request, Response } from "express";
+import { body } from "express-validator";
+import JSZip from "jszip";
+import { BusinessPlan, Prisma } from "@prisma/client";
 import { prisma } from "../utils/prisma";
 import { authenticate } from "../middlewares/auth.middleware";
+import { validate } from "../middlewares/validation.middleware";
 import {
   asyncHandler,
   BadRequestError,
@@ -10,9 +13,233 @@ import {
 } from "../middlewares/error.middleware";
 import { AuthRequest, BusinessPlanContent } from "../types";
 import { parsePaginationParams, paginate } from "../utils/pagination";
+import { prefillGeneralStatus } from "../utils/companyProfile";
+import {
+  BUSINESS_PLAN_INCLUDE,
+  assertBusinessPlanVersion,
+  formatBusinessPlan,
+  getBusinessPlanEtag,
+  getExpectedVersion,
+  saveBusinessPlan,
+  sendBusinessPlan,
+} from "../utils/businessPlans";
+import {
+  PlanDocument,
+  addSection,
+  addSubSection,
+  removeSection,
+  removeSubSection,
+  reorderSections,
+  reorderSubSections,
+  toPlanDocument,
+  updateSection,
+  updateSubSection,
+} from "../utils/businessPlanSections";
+import { applyJsonPatch } from "../utils/jsonPatch";
+import {
+  PlanExporter,
+  buildPlanOutline,
+  getPlanExporter,
+} from "../services/export";
+import { importDocxSections } from "../services/import";
+import { buildAttachmentDisposition, toSafeFileName } from "../utils/fileNames";
+import {
+  assertDraftRateLimit,
+  claimBusinessPlan,
+  createClaimToken,
+} from "../utils/businessPlanClaims";
+import { createGenerationJob, formatGenerationJob } from "../utils/businessPlanGeneration";
+import {
+  GenerationJobEvent,
+  enqueueGenerationJob,
+  getGenerationProgress,
+  subscribeGenerationJob,
+} from "../jobs/businessPlanGeneration.job";
+import { openEventStream } from "../utils/sse";
+import { reviewBusinessPlan } from "../utils/businessPlanReview";
+import {
+  BUSINESS_PLAN_STATUSES,
+  formatStatusChange,
+  getAllowedTransitions,
+  isBusinessPlanStatus,
+  summarizeApplication,
+} from "../utils/businessPlanStatus";
+import {
+  SECTION_EDIT_ACTIONS,
+  acceptSectionProposal,
+  createSectionProposal,
+  discardSectionProposal,
+  findSectionProposal,
+  formatSectionProposal,
+} from "../utils/businessPlanProposals";
+import {
+  migrateBusinessPlanContent,
+  migrateBusinessPlanData,
+  prepareBusinessPlanJson,
+  toBusinessPlanData,
+} from "../utils/businessPlanSchema";
+import {
+  applyTemplateToData,
+  assertTemplateRules,
+  findTemplateSections,
+} from "../utils/businessPlanTemplates";
+import {
+  diffRevisions,
+  findRevision,
+  formatRevision,
+  formatRevisionSummary,
+} from "../utils/businessPlanRevisions";
 
 const router = Router();
 
+// 본인 사업계획서 조회 (없으면 404, 타인 소유면 403)
+const findOwnedBusinessPlan = async (id: string, userId: string) => {
+  const businessPlan = await prisma.businessPlan.findUnique({
+    where: { id },
+    include: BUSINESS_PLAN_INCLUDE,
+  });
+
+  if (!businessPlan) {
+    throw new NotFoundError("사업계획서를 찾을 수 없습니다.");
+  }
+
+  if (businessPlan.userId !== userId) {
+    throw new ForbiddenError("이 사업계획서에 접근할 권한이 없습니다.");
+  }
+
+  return businessPlan;
+};
+
+// 리비전 번호 파라미터 파싱
+const parseRevisionNumber = (value: unknown, name: string = "revision") => {
+  const revision = Number(value);
+
+  if (!Number.isInteger(revision) || revision < 1) {
+    throw new BadRequestError(`${name}은(는) 1 이상의 정수여야 합니다.`);
+  }
+
+  return revision;
+};
+
+// JSON Patch 로 수정할 수 있는 경로
+const JSON_PATCH_ROOTS = ["/title", "/content", "/data"];
+
+// DOCX 가져오기 요청 본문 형식
+const DOCX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// 일괄 내보내기 최대 건수
+const BULK_EXPORT_LIMIT = 20;
+
+// 섹션 필드 검증 (content 섹션: title/content, data 섹션: title/data/subSections)
+const sectionFieldValidations = [
+  body("title").optional().isString().withMessage("title 은 문자열이어야 합니다."),
+  body("content").optional().isString().withMessage("content 는 문자열이어야 합니다."),
+  body("data").optional().isObject().withMessage("data 는 객체여야 합니다."),
+  body("subSections")
+    .optional()
+    .isArray()
+    .withMessage("subSections 는 배열이어야 합니다."),
+];
+
+const subSectionFieldValidations = [
+  body("subTitle").optional().isString().withMessage("subTitle 은 문자열이어야 합니다."),
+  body("content").optional().isObject().withMessage("content 는 객체여야 합니다."),
+];
+
+// 하위 섹션 인덱스 파라미터 파싱
+const parseSubSectionIndex = (value: unknown) => {
+  const index = Number(value);
+
+  if (!Number.isInteger(index) || index < 0) {
+    throw new BadRequestError("하위 섹션 인덱스는 0 이상의 정수여야 합니다.");
+  }
+
+  return index;
+};
+
+// 섹션 단위 편집 공통 처리 (버전 확인 → 편집 → 저장 및 리비전 기록)
+const editPlanSections = async (
+  req: AuthRequest,
+  res: Response,
+  statusCode: number,
+  edit: (doc: PlanDocument) => unknown
+) => {
+  const userId = req.user!.id;
+  const businessPlan = await findOwnedBusinessPlan(req.params.id, userId);
+  assertBusinessPlanVersion(businessPlan, getExpectedVersion(req, businessPlan.id));
+
+  const doc = toPlanDocument(businessPlan);
+  edit(doc);
+
+  const updatedBusinessPlan = await saveBusinessPlan(
+    businessPlan,
+    userId,
+    prepareBusinessPlanJson(doc)
+  );
+
+  sendBusinessPlan(res, updatedBusinessPlan, statusCode);
+};
+
+// 사업계획서 → 내보내기 파일 (지원사업 양식이 있으면 양식의 섹션 순서/제목 사용)
+const renderBusinessPlan = async (
+  businessPlan: BusinessPlan & { grant?: { title: string } | null },
+  exporter: PlanExporter
+) => {
+  // data 필드에서 사업계획서 내용 추출 (형식이 잘못되었으면 필드 단위 오류로 응답)
+  const outline = buildPlanOutline({
+    title: businessPlan.title,
+    data: toBusinessPlanData(businessPlan.data),
+    grantTitle: businessPlan.grant?.title,
+    template: await findTemplateSections(businessPlan.grantId),
+  });
+
+  return exporter.render(outline);
+};
+
+// 신규 사업계획서 검증 (제목, 지원사업 존재 여부, 양식 적용 및 content/data 스키마)
+const prepareNewBusinessPlan = async ({
+  title,
+  grantId,
+  content,
+  data,
+}: {
+  title?: string;
+  grantId?: string;
+  content?: unknown;
+  data?: unknown;
+}) => {
+  if (!title) {
+    throw new BadRequestError("제목은 필수 항목입니다.");
+  }
+
+  // 지원사업 존재 확인 (선택사항)
+  let grant = null;
+  if (grantId) {
+    grant = await prisma.grant.findUnique({
+      where: { id: grantId },
+    });
+    if (!grant) {
+      throw new NotFoundError("지원사업을 찾을 수 없습니다.");
+    }
+  }
+
+  // 지원사업 양식이 있으면 양식의 섹션 순서/제목으로 data 를 구성
+  const templateSections = await findTemplateSections(grant?.id);
+  if (templateSections) {
+    data = applyTemplateToData(data, templateSections);
+  }
+
+  // content/data 스키마 검증 (이전 버전 형식은 최신 버전으로 변환)
+  const planJson = prepareBusinessPlanJson({
+    content: content || { sections: [] },
+    data: data || {},
+  });
+  assertTemplateRules(planJson.data, templateSections, "draft");
+
+  return planJson;
+};
+
 // 3.1 내 사업계획서 목록 조회
 router.get(
   "/",
@@ -25,7 +252,7 @@ router.get(
     const { status, sort = "updatedAt", order = "desc" } = req.query;
 
     const where: any = { userId };
-    if (status && (status === "draft" || status === "completed")) {
+    if (isBusinessPlanStatus(status)) {
       where.status = status;
     }
 
@@ -94,18 +321,7 @@ router.get(
       throw new ForbiddenError("이 사업계획서에 접근할 권한이 없습니다.");
     }
 
-    res.json({
-      id: businessPlan.id,
-      title: businessPlan.title,
-      grantId: businessPlan.grantId,
-      grantTitle: businessPlan.grant?.title || null,
-      content: businessPlan.content,
-      data: businessPlan.data ?? null,
-      status: businessPlan.status,
-      userId: businessPlan.userId,
-      createdAt: businessPlan.createdAt,
-      updatedAt: businessPlan.updatedAt,
-    });
+    sendBusinessPlan(res, businessPlan);
   })
 );
 
@@ -115,142 +331,42 @@ router.post(
   authenticate,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.user!.id;
-    const { title, grantId, content, data, businessPlanId, useCredit } = req.body;
+    const { title, grantId, content, businessPlanId, useCredit, prefillFromProfile } =
+      req.body;
+    let { data } = req.body;
 
-    // 1. businessPlanId가 제공된 경우: 기존 사업계획서를 내 것으로 가져오기
+    // 기존 사업계획서 가져오기는 claim 토큰이 필요하므로 별도 엔드포인트 사용
     if (businessPlanId) {
-      const existingPlan = await prisma.businessPlan.findUnique({
-        where: { id: businessPlanId },
-      });
-
-      if (!existingPlan) {
-        throw new NotFoundError("해당 사업계획서를 찾을 수 없습니다.");
-      }
-
-      // 소유권 업데이트
-      const updatedPlan = await prisma.businessPlan.update({
-        where: { id: businessPlanId },
-        data: {
-          userId,
-          // 필요하다면 status나 기타 필드도 초기화
-          // status: "draft",
-        },
-        include: {
-          grant: {
-            select: {
-              id: true,
-              title: true,
-            },
-          },
-        },
-      });
-
-      return res.status(200).json({
-        id: updatedPlan.id,
-        title: updatedPlan.title,
-        grantId: updatedPlan.grantId,
-        grantTitle: updatedPlan.grant?.title || null,
-        content: updatedPlan.content,
-        data: updatedPlan.data ?? null,
-        status: updatedPlan.status,
-        userId: updatedPlan.userId,
-        createdAt: updatedPlan.createdAt,
-        updatedAt: updatedPlan.updatedAt,
-      });
+      throw new BadRequestError(
+        "기존 사업계획서는 POST /api/business-plans/:id/claim 으로 claim 토큰과 함께 가져와야 합니다."
+      );
     }
 
-    // 2. 신규 생성 (기존 로직)
-    if (!title) {
-      throw new BadRequestError("제목은 필수 항목입니다.");
+    // AI 생성은 서버에서 실행하고 성공 시 이용권 차감 (POST /:id/generations)
+    if (useCredit) {
+      throw new BadRequestError(
+        "AI 생성은 사업계획서를 만든 뒤 POST /api/business-plans/:id/generations 로 요청해야 합니다."
+      );
     }
 
-    // 지원사업 존재 확인 (선택사항)
-    let grant = null;
-    if (grantId) {
-      grant = await prisma.grant.findUnique({
-        where: { id: grantId },
+    // 기업 정보로 일반현황(generalStatus) 자동 입력
+    if (prefillFromProfile) {
+      const profile = await prisma.companyProfile.findUnique({
+        where: { userId },
       });
-      if (!grant) {
-        throw new NotFoundError("지원사업을 찾을 수 없습니다.");
+      if (profile) {
+        data = prefillGeneralStatus(data, profile);
       }
     }
 
-    // AI 생성 사업계획서인 경우 (useCredit: true) 크레딧 검증 및 차감
-    if (useCredit) {
-      // 크레딧 검증
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-      });
-
-      if (!user || user.credits < 1) {
-        throw new BadRequestError("이용권이 부족합니다.");
-      }
-
-      // 트랜잭션으로 크레딧 차감 + 사업계획서 생성
-      const result = await prisma.$transaction(async (tx) => {
-        // 크레딧 차감
-        await tx.user.update({
-          where: { id: userId },
-          data: {
-            credits: { decrement: 1 },
-          },
-        });
-
-        // 사업계획서 생성
-        const newPlan = await tx.businessPlan.create({
-          data: {
-            title,
-            grantId: grantId || null,
-            content: content || { sections: [] },
-            data: data || {},
-            status: "draft",
-            userId,
-          },
-          include: {
-            grant: {
-              select: {
-                id: true,
-                title: true,
-              },
-            },
-          },
-        });
-
-        // 크레딧 사용 내역 생성
-        await tx.creditHistory.create({
-          data: {
-            userId,
-            type: "use",
-            amount: -1,
-            description: `사업계획서 생성: ${title}`,
-            businessPlanId: newPlan.id,
-          },
-        });
-
-        return newPlan;
-      });
+    const planJson = await prepareNewBusinessPlan({ title, grantId, content, data });
 
-      return res.status(201).json({
-        id: result.id,
-        title: result.title,
-        grantId: result.grantId,
-        grantTitle: result.grant?.title || null,
-        content: result.content,
-        data: result.data ?? null,
-        status: result.status,
-        userId: result.userId,
-        createdAt: result.createdAt,
-        updatedAt: result.updatedAt,
-      });
-    }
-
-    // 일반 사업계획서 생성 (크레딧 미사용)
     const businessPlan = await prisma.businessPlan.create({
       data: {
         title,
         grantId: grantId || null,
-        content: content || { sections: [] },
-        data: data || {},
+        content: planJson.content,
+        data: planJson.data,
         status: "draft",
         userId,
       },
@@ -265,23 +381,92 @@ router.post(
     });
 
     // 프론트엔드가 기대하는 `data` 필드를 포함해 응답합니다.
-    // `businessPlan.data` 는 AI가 만든 전체 JSON(선택)이며, 없을 경우 null 로 반환합니다.
-    res.status(201).json({
-      id: businessPlan.id,
-      title: businessPlan.title,
-      grantId: businessPlan.grantId,
-      grantTitle: businessPlan.grant?.title || null,
-      content: businessPlan.content,
-      data: businessPlan.data ?? null,
+    // `businessPlan.data` 는 AI 생성 또는 사용자가 입력한 전체 JSON(선택)이며, 없을 경우 null 로 반환합니다.
+    sendBusinessPlan(res, businessPlan, 201);
+  })
+);
+
+// 사업계획서 점검 (섹션별 점수와 체크리스트, 지원사업 제출서류 목록)
+router.get(
+  "/:id/review",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const businessPlan = await findOwnedBusinessPlan(req.params.id, userId);
+
+    const [grant, templateSections] = await Promise.all([
+      businessPlan.grantId
+        ? prisma.grant.findUnique({
+            where: { id: businessPlan.grantId },
+            select: { id: true, title: true, requiredDocuments: true },
+          })
+        : Promise.resolve(null),
+      findTemplateSections(businessPlan.grantId),
+    ]);
+
+    res.json(reviewBusinessPlan(businessPlan, grant, templateSections));
+  })
+);
+
+// 사업계획서 상태 조회 (현재 상태, 변경 가능한 상태, 상태 변경 내역)
+router.get(
+  "/:id/status",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const businessPlan = await findOwnedBusinessPlan(req.params.id, userId);
+
+    const changes = await prisma.businessPlanStatusChange.findMany({
+      where: { businessPlanId: businessPlan.id },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.json({
       status: businessPlan.status,
-      userId: businessPlan.userId,
-      createdAt: businessPlan.createdAt,
-      updatedAt: businessPlan.updatedAt,
+      allowedTransitions: getAllowedTransitions(businessPlan.status),
+      application: summarizeApplication(businessPlan.status, changes),
+      history: changes.map(formatStatusChange),
     });
   })
 );
 
-// 3.4 사업계획서 다운로드 (DOCX)
+// 사업계획서 상태 변경 (허용된 전환만, 선정/탈락은 note 로 지원 결과 메모)
+router.post(
+  "/:id/status",
+  authenticate,
+  validate([
+    body("status")
+      .isIn(BUSINESS_PLAN_STATUSES)
+      .withMessage(`상태는 ${BUSINESS_PLAN_STATUSES.join(", ")} 중 하나여야 합니다.`),
+    body("note")
+      .optional({ values: "null" })
+      .isString()
+      .isLength({ max: 2000 })
+      .withMessage("note 는 2000자 이하의 문자열이어야 합니다."),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { status, note } = req.body;
+
+    const businessPlan = await findOwnedBusinessPlan(req.params.id, userId);
+    assertBusinessPlanVersion(businessPlan, getExpectedVersion(req, businessPlan.id));
+
+    if (status === businessPlan.status) {
+      throw new BadRequestError(`이미 ${status} 상태입니다.`);
+    }
+
+    const updatedBusinessPlan = await saveBusinessPlan(
+      businessPlan,
+      userId,
+      { status },
+      { statusNote: note || null }
+    );
+
+    sendBusinessPlan(res, updatedBusinessPlan);
+  })
+);
+
+// 3.4 사업계획서 다운로드 (format: docx | pdf | hwpx | md | txt)
 router.get(
   "/:id/download",
   authenticate,
@@ -289,238 +474,812 @@ router.get(
     const userId = req.user!.id;
     const { id } = req.params;
     const { format = "docx" } = req.query;
+    const exporter = getPlanExporter(format);
 
-    const businessPlan = await prisma.businessPlan.findUnique({
-      where: { id },
+    const businessPlan = await findOwnedBusinessPlan(id, userId);
+
+    // 화면에서 보던 버전과 다르면 내려받지 않고 최신 상태를 돌려줌
+    assertBusinessPlanVersion(businessPlan, getExpectedVersion(req, businessPlan.id));
+
+    const buffer = await renderBusinessPlan(businessPlan, exporter);
+
+    // 파일명 (한글 제목은 filename*, ASCII 만 지원하는 클라이언트에는 ID 기반 이름)
+    const fileName = toSafeFileName(businessPlan.title, exporter.extension, "business-plan");
+    const asciiFileName = `business-plan-${businessPlan.id}.${exporter.extension}`;
+
+    res.setHeader("Content-Type", exporter.contentType);
+    res.setHeader("Content-Disposition", buildAttachmentDisposition(fileName, asciiFileName));
+    res.setHeader("ETag", getBusinessPlanEtag(businessPlan));
+    res.send(buffer);
+  })
+);
+
+// 3.5 사업계획서 일괄 내보내기 (선택한 사업계획서를 ZIP 으로 묶어 전송)
+router.post(
+  "/export",
+  authenticate,
+  validate([
+    body("ids")
+      .isArray({ min: 1, max: BULK_EXPORT_LIMIT })
+      .withMessage(`ids 는 1~${BULK_EXPORT_LIMIT}개의 사업계획서 ID 배열이어야 합니다.`),
+    body("ids.*").isString().withMessage("ids 항목은 문자열이어야 합니다."),
+    body("format").optional().isString().withMessage("format 은 문자열이어야 합니다."),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { format = "docx" } = req.body;
+    const ids: string[] = [...new Set<string>(req.body.ids)];
+    const exporter = getPlanExporter(format);
+
+    const businessPlans = await prisma.businessPlan.findMany({
+      where: { id: { in: ids }, userId },
+      include: BUSINESS_PLAN_INCLUDE,
     });
 
-    if (!businessPlan) {
-      throw new NotFoundError("사업계획서를 찾을 수 없습니다.");
+    if (businessPlans.length !== ids.length) {
+      throw new NotFoundError("사업계획서를 찾을 수 없거나 접근 권한이 없는 항목이 있습니다.");
     }
 
-    if (businessPlan.userId !== userId) {
-      throw new ForbiddenError("이 사업계획서에 접근할 권한이 없습니다.");
+    // 요청한 순서대로, 같은 제목은 번호를 붙여 구분
+    const byId = new Map(businessPlans.map((plan) => [plan.id, plan]));
+    const usedNames = new Set<string>();
+    const zip = new JSZip();
+
+    for (const id of ids) {
+      const businessPlan = byId.get(id)!;
+      const buffer = await renderBusinessPlan(businessPlan, exporter);
+
+      let fileName = toSafeFileName(businessPlan.title, exporter.extension, "business-plan");
+      for (let n = 2; usedNames.has(fileName.toLowerCase()); n++) {
+        fileName = toSafeFileName(
+          businessPlan.title,
+          exporter.extension,
+          "business-plan",
+          ` (${n})`
+        );
+      }
+      usedNames.add(fileName.toLowerCase());
+
+      zip.file(fileName, buffer, { createFolders: false });
     }
 
-    // data 필드에서 사업계획서 내용 추출
-    const planData = businessPlan.data as any;
-    const docChildren: Paragraph[] = [];
-
-    // 문서 제목
-    const documentTitle = planData?.documentTitle || businessPlan.title;
-    docChildren.push(
-      new Paragraph({
-        text: documentTitle,
-        heading: HeadingLevel.TITLE,
-        spacing: { after: 400 },
-      })
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader(
+      "Content-Disposition",
+      buildAttachmentDisposition("사업계획서.zip", "business-plans.zip")
     );
 
-    // 섹션 순서 정의
-    const sectionOrder = ["generalStatus", "summary", "problem", "solution", "scaleup", "team"];
+    zip
+      .generateNodeStream({ type: "nodebuffer", streamFiles: true, compression: "DEFLATE" })
+      .on("error", (error) => res.destroy(error))
+      .pipe(res);
+  })
+);
 
-    if (planData?.sections) {
-      for (const sectionKey of sectionOrder) {
-        const section = planData.sections[sectionKey];
-        if (!section) continue;
+// 3.6 DOCX 사업계획서 가져오기 (제목/문단을 content 섹션으로 변환해 새 사업계획서 생성)
+// - 요청 본문에 DOCX 파일을 그대로 전송
+// - ?grantId= 지원사업의 양식이 있으면 제목을 양식 섹션 key 로 매핑
+// - ?dryRun=true 이면 저장하지 않고 변환 결과와 미매핑 보고서만 반환
+router.post(
+  "/import",
+  authenticate,
+  express.raw({ type: [DOCX_CONTENT_TYPE, "application/octet-stream"], limit: "10mb" }),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const dryRun = req.query.dryRun === "true";
+    const grantId = typeof req.query.grantId === "string" ? req.query.grantId : null;
 
-        // 섹션 제목
-        docChildren.push(
-          new Paragraph({
-            text: section.title || sectionKey,
-            heading: HeadingLevel.HEADING_1,
-            spacing: { before: 400, after: 200 },
-          })
-        );
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      throw new BadRequestError("DOCX 파일을 요청 본문으로 전송해주세요.");
+    }
 
-        // 섹션 데이터 처리 (summary, generalStatus 등)
-        if (section.data) {
-          for (const [key, value] of Object.entries(section.data)) {
-            if (typeof value === "string") {
-              docChildren.push(
-                new Paragraph({
-                  children: [new TextRun({ text: `${key}: `, bold: true }), new TextRun(value)],
-                  spacing: { after: 100 },
-                })
-              );
-            } else if (typeof value === "object" && value !== null) {
-              docChildren.push(
-                new Paragraph({
-                  children: [new TextRun({ text: `${key}:`, bold: true })],
-                  spacing: { after: 50 },
-                })
-              );
-              for (const [subKey, subValue] of Object.entries(value as object)) {
-                if (typeof subValue === "string") {
-                  docChildren.push(
-                    new Paragraph({
-                      children: [new TextRun({ text: `  - ${subKey}: `, bold: true }), new TextRun(subValue)],
-                      spacing: { after: 50 },
-                    })
-                  );
-                }
-              }
-            }
-          }
-        }
-
-        // subSections 처리
-        if (section.subSections && Array.isArray(section.subSections)) {
-          for (const subSection of section.subSections) {
-            // 소제목
-            if (subSection.subTitle) {
-              docChildren.push(
-                new Paragraph({
-                  text: subSection.subTitle,
-                  heading: HeadingLevel.HEADING_2,
-                  spacing: { before: 300, after: 150 },
-                })
-              );
-            }
-
-            // 콘텐츠 처리
-            if (subSection.content) {
-              const content = subSection.content;
-              for (const [contentKey, contentValue] of Object.entries(content)) {
-                // 배열인 경우 (problems, competitorAnalysis 등)
-                if (Array.isArray(contentValue)) {
-                  for (const item of contentValue) {
-                    if (typeof item === "string") {
-                      docChildren.push(
-                        new Paragraph({
-                          children: [new TextRun(`• ${item}`)],
-                          spacing: { after: 100 },
-                        })
-                      );
-                    } else if (typeof item === "object" && item !== null) {
-                      // 테이블 형태의 데이터
-                      const itemEntries = Object.entries(item as object)
-                        .map(([k, v]) => `${k}: ${v}`)
-                        .join(" | ");
-                      docChildren.push(
-                        new Paragraph({
-                          children: [new TextRun(`• ${itemEntries}`)],
-                          spacing: { after: 100 },
-                        })
-                      );
-                    }
-                  }
-                }
-                // 문자열인 경우
-                else if (typeof contentValue === "string") {
-                  docChildren.push(
-                    new Paragraph({
-                      children: [new TextRun({ text: `${contentKey}: `, bold: true }), new TextRun(contentValue)],
-                      spacing: { after: 100 },
-                    })
-                  );
-                }
-                // 객체인 경우
-                else if (typeof contentValue === "object" && contentValue !== null) {
-                  docChildren.push(
-                    new Paragraph({
-                      children: [new TextRun({ text: `[${contentKey}]`, bold: true })],
-                      spacing: { before: 150, after: 50 },
-                    })
-                  );
-                  for (const [objKey, objValue] of Object.entries(contentValue as object)) {
-                    if (typeof objValue === "string") {
-                      docChildren.push(
-                        new Paragraph({
-                          children: [new TextRun({ text: `${objKey}: `, bold: true }), new TextRun(objValue)],
-                          spacing: { after: 50 },
-                        })
-                      );
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
+    if (grantId) {
+      const grant = await prisma.grant.findUnique({ where: { id: grantId } });
+      if (!grant) {
+        throw new NotFoundError("지원사업을 찾을 수 없습니다.");
       }
     }
 
-    const doc = new Document({
-      sections: [
-        {
-          properties: {},
-          children: docChildren,
-        },
-      ],
+    const templateSections = await findTemplateSections(grantId);
+    const imported = await importDocxSections(req.body, templateSections);
+    const title =
+      (typeof req.query.title === "string" && req.query.title.trim()) ||
+      imported.title ||
+      "가져온 사업계획서";
+    const report = {
+      unmapped: imported.unmapped,
+      missingSections: imported.missingSections,
+    };
+
+    const planJson = prepareBusinessPlanJson({
+      content: { sections: imported.sections },
+      data: templateSections ? applyTemplateToData({}, templateSections) : {},
     });
 
-    const buffer = await Packer.toBuffer(doc);
+    if (dryRun) {
+      return res.json({ title, content: planJson.content, report });
+    }
 
-    // 파일명 생성 (특수문자 제거)
-    const fileName = `${businessPlan.title.replace(
-      /[^a-zA-Z0-9가-힣\s]/g,
-      "_"
-    )}.docx`;
+    const businessPlan = await prisma.businessPlan.create({
+      data: {
+        title: title.slice(0, 500),
+        grantId,
+        content: planJson.content,
+        data: planJson.data,
+        status: "draft",
+        userId,
+      },
+      include: BUSINESS_PLAN_INCLUDE,
+    });
 
-    res.setHeader(
-      "Content-Type",
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-    );
-    res.setHeader(
-      "Content-Disposition",
-      `attachment; filename="${encodeURIComponent(fileName)}"`
-    );
-    res.send(buffer);
+    res.setHeader("ETag", getBusinessPlanEtag(businessPlan));
+    res.status(201).json({ ...formatBusinessPlan(businessPlan), report });
   })
 );
 
-// 사업계획서 수정
+// 3.7 비회원 사업계획서 작성 (소유자 없이 저장하고 일회용 claim 토큰 발급)
+// - claimToken 은 이 응답에서만 확인할 수 있으며, 로그인 후 3.8 로 내 계정에 가져옴
+// - 같은 IP 에서 1시간에 10건까지, claim 토큰이 만료되면 삭제됨
+router.post(
+  "/drafts",
+  validate([
+    body("title")
+      .isString()
+      .withMessage("제목은 문자열이어야 합니다.")
+      .bail()
+      .trim()
+      .notEmpty()
+      .withMessage("제목은 필수 항목입니다.")
+      .isLength({ max: 500 })
+      .withMessage("제목은 500자 이하여야 합니다."),
+    body("grantId")
+      .optional({ values: "null" })
+      .isString()
+      .withMessage("grantId 는 문자열이어야 합니다."),
+    body("content")
+      .optional({ values: "null" })
+      .isObject()
+      .withMessage("content 는 객체여야 합니다."),
+    body("data")
+      .optional({ values: "null" })
+      .isObject()
+      .withMessage("data 는 객체여야 합니다."),
+  ]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { title, grantId, content, data } = req.body;
+
+    await assertDraftRateLimit(req.ip);
+
+    const planJson = await prepareNewBusinessPlan({ title, grantId, content, data });
+    const claim = createClaimToken();
+
+    const businessPlan = await prisma.businessPlan.create({
+      data: {
+        title,
+        grantId: grantId || null,
+        content: planJson.content,
+        data: planJson.data,
+        status: "draft",
+        claimTokenHash: claim.hash,
+        claimTokenExpiresAt: claim.expiresAt,
+        draftIpAddress: req.ip?.slice(0, 100) ?? null,
+      },
+      include: BUSINESS_PLAN_INCLUDE,
+    });
+
+    res.setHeader("ETag", getBusinessPlanEtag(businessPlan));
+    res.status(201).json({
+      ...formatBusinessPlan(businessPlan),
+      claimToken: claim.token,
+      claimTokenExpiresAt: claim.expiresAt,
+    });
+  })
+);
+
+// 3.8 비회원 사업계획서 가져오기 (claim 토큰 소유자만, 시도 내역 기록 및 실패 횟수 제한)
+router.post(
+  "/:id/claim",
+  authenticate,
+  validate([
+    body("claimToken")
+      .isString()
+      .withMessage("claimToken 은 문자열이어야 합니다.")
+      .bail()
+      .notEmpty()
+      .withMessage("claimToken 은 필수 항목입니다."),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const businessPlan = await claimBusinessPlan(req.params.id, req.body.claimToken, {
+      userId: req.user!.id,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+
+    sendBusinessPlan(res, businessPlan);
+  })
+);
+
+// 사업계획서 수정 (If-Match 헤더 또는 version 필드로 동시 수정 충돌 방지)
 router.put(
   "/:id",
   authenticate,
   asyncHandler(async (req: AuthRequest, res: Response) => {
     const userId = req.user!.id;
     const { id } = req.params;
-    const { title, content, data, status } = req.body;
+    const { title, status } = req.body;
 
-    const businessPlan = await prisma.businessPlan.findUnique({
-      where: { id },
+    // content/data 스키마 검증 (이전 버전 형식은 최신 버전으로 변환)
+    const { content, data } = prepareBusinessPlanJson({
+      content: req.body.content || undefined,
+      data: req.body.data || undefined,
     });
 
-    if (!businessPlan) {
-      throw new NotFoundError("사업계획서를 찾을 수 없습니다.");
+    const businessPlan = await findOwnedBusinessPlan(id, userId);
+    assertBusinessPlanVersion(businessPlan, getExpectedVersion(req, businessPlan.id));
+
+    const updatedBusinessPlan = await saveBusinessPlan(businessPlan, userId, {
+      ...(title && { title }),
+      ...(content && { content }),
+      ...(data && { data }),
+      ...(status && { status }),
+    });
+
+    sendBusinessPlan(res, updatedBusinessPlan);
+  })
+);
+
+// 사업계획서 JSON Patch (RFC 6902, title/content/data 경로만 허용)
+router.patch(
+  "/:id",
+  authenticate,
+  express.json({ type: "application/json-patch+json" }),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const operations = req.body;
+
+    if (!Array.isArray(operations)) {
+      throw new BadRequestError("JSON Patch 는 연산 배열이어야 합니다.");
     }
 
-    if (businessPlan.userId !== userId) {
-      throw new ForbiddenError("이 사업계획서에 접근할 권한이 없습니다.");
+    const pointers = operations.flatMap((operation) => [
+      operation?.path,
+      ...(operation?.from !== undefined ? [operation.from] : []),
+    ]);
+    const invalidPointer = pointers.find(
+      (pointer) =>
+        typeof pointer !== "string" ||
+        !JSON_PATCH_ROOTS.some(
+          (root) => pointer === root || pointer.startsWith(`${root}/`)
+        )
+    );
+    if (invalidPointer !== undefined) {
+      throw new BadRequestError(
+        `수정할 수 없는 경로입니다: ${invalidPointer} (${JSON_PATCH_ROOTS.join(", ")} 하위만 허용)`
+      );
     }
 
-    const updatedBusinessPlan = await prisma.businessPlan.update({
-      where: { id },
-      data: {
-        ...(title && { title }),
-        ...(content && { content }),
-        ...(data && { data }),
-        ...(status && { status }),
+    const businessPlan = await findOwnedBusinessPlan(id, userId);
+    assertBusinessPlanVersion(businessPlan, getExpectedVersion(req, businessPlan.id));
+
+    // 경로가 최신 스키마 기준이 되도록 변환 후 적용
+    const patched = applyJsonPatch(
+      {
+        title: businessPlan.title,
+        content: migrateBusinessPlanContent(businessPlan.content),
+        data: migrateBusinessPlanData(businessPlan.data),
       },
-      include: {
-        grant: {
-          select: {
-            id: true,
-            title: true,
-          },
-        },
+      operations
+    );
+
+    if (typeof patched.title !== "string" || !patched.title.trim()) {
+      throw new BadRequestError("제목은 필수 항목입니다.");
+    }
+
+    const updatedBusinessPlan = await saveBusinessPlan(businessPlan, userId, {
+      title: patched.title,
+      ...prepareBusinessPlanJson({ content: patched.content, data: patched.data }),
+    });
+
+    sendBusinessPlan(res, updatedBusinessPlan);
+  })
+);
+
+// 섹션 추가 (key 가 있으면 data.sections, 없으면 content.sections)
+router.post(
+  "/:id/sections",
+  authenticate,
+  validate([
+    body("key").optional().isString().withMessage("key 는 문자열이어야 합니다."),
+    body("id").optional().isString().withMessage("id 는 문자열이어야 합니다."),
+    ...sectionFieldValidations,
+    body("position")
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage("position 은 0 이상의 정수여야 합니다.")
+      .toInt(),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { key, id, title, content, data, subSections, position } = req.body;
+
+    await editPlanSections(req, res, 201, (doc) =>
+      addSection(doc, { key, id, title, content, data, subSections, position })
+    );
+  })
+);
+
+// 섹션 순서 변경
+router.put(
+  "/:id/sections/order",
+  authenticate,
+  validate([
+    body("source")
+      .optional()
+      .isIn(["content", "data"])
+      .withMessage("source 는 content 또는 data 여야 합니다."),
+    body("order")
+      .isArray()
+      .withMessage("order 는 섹션 키(id) 배열이어야 합니다."),
+    body("order.*").isString().withMessage("order 는 섹션 키(id) 배열이어야 합니다."),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { source = "content", order } = req.body;
+
+    await editPlanSections(req, res, 200, (doc) =>
+      reorderSections(doc, source, order)
+    );
+  })
+);
+
+// 섹션 수정 (섹션 id 또는 generalStatus, summary 등 data 섹션 키)
+router.patch(
+  "/:id/sections/:sectionKey",
+  authenticate,
+  validate(sectionFieldValidations),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { title, content, data, subSections } = req.body;
+
+    await editPlanSections(req, res, 200, (doc) =>
+      updateSection(doc, req.params.sectionKey, { title, content, data, subSections })
+    );
+  })
+);
+
+// 섹션 삭제
+router.delete(
+  "/:id/sections/:sectionKey",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    await editPlanSections(req, res, 200, (doc) =>
+      removeSection(doc, req.params.sectionKey)
+    );
+  })
+);
+
+// 하위 섹션 추가
+router.post(
+  "/:id/sections/:sectionKey/sub-sections",
+  authenticate,
+  validate([
+    ...subSectionFieldValidations,
+    body("position")
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage("position 은 0 이상의 정수여야 합니다.")
+      .toInt(),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { subTitle, content, position } = req.body;
+
+    await editPlanSections(req, res, 201, (doc) =>
+      addSubSection(doc, req.params.sectionKey, { subTitle, content, position })
+    );
+  })
+);
+
+// 하위 섹션 순서 변경 (기존 인덱스를 새 순서대로 나열)
+router.put(
+  "/:id/sections/:sectionKey/sub-sections/order",
+  authenticate,
+  validate([
+    body("order")
+      .isArray()
+      .withMessage("order 는 하위 섹션 인덱스 배열이어야 합니다."),
+    body("order.*")
+      .isInt({ min: 0 })
+      .withMessage("order 는 하위 섹션 인덱스 배열이어야 합니다.")
+      .toInt(),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    await editPlanSections(req, res, 200, (doc) =>
+      reorderSubSections(doc, req.params.sectionKey, req.body.order)
+    );
+  })
+);
+
+// 하위 섹션 수정
+router.patch(
+  "/:id/sections/:sectionKey/sub-sections/:index",
+  authenticate,
+  validate(subSectionFieldValidations),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { subTitle, content } = req.body;
+    const index = parseSubSectionIndex(req.params.index);
+
+    await editPlanSections(req, res, 200, (doc) =>
+      updateSubSection(doc, req.params.sectionKey, index, { subTitle, content })
+    );
+  })
+);
+
+// 하위 섹션 삭제
+router.delete(
+  "/:id/sections/:sectionKey/sub-sections/:index",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const index = parseSubSectionIndex(req.params.index);
+
+    await editPlanSections(req, res, 200, (doc) =>
+      removeSubSection(doc, req.params.sectionKey, index)
+    );
+  })
+);
+
+// 사업계획서 리비전 목록 조회
+router.get(
+  "/:id/revisions",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { page, limit, skip } = parsePaginationParams(
+      req.query as { page?: string; limit?: string }
+    );
+
+    await findOwnedBusinessPlan(id, userId);
+
+    const [revisions, total] = await Promise.all([
+      prisma.businessPlanRevision.findMany({
+        where: { businessPlanId: id },
+        orderBy: { revision: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.businessPlanRevision.count({ where: { businessPlanId: id } }),
+    ]);
+
+    res.json(paginate(revisions.map(formatRevisionSummary), total, page, limit));
+  })
+);
+
+// 사업계획서 리비전 비교 (섹션 단위)
+router.get(
+  "/:id/revisions/compare",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const from = parseRevisionNumber(req.query.from, "from");
+    const to = parseRevisionNumber(req.query.to, "to");
+
+    await findOwnedBusinessPlan(id, userId);
+
+    const [fromRevision, toRevision] = await Promise.all([
+      findRevision(id, from),
+      findRevision(id, to),
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      throw new NotFoundError("리비전을 찾을 수 없습니다.");
+    }
+
+    res.json(diffRevisions(fromRevision, toRevision));
+  })
+);
+
+// 사업계획서 리비전 상세 조회
+router.get(
+  "/:id/revisions/:revision",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const revisionNumber = parseRevisionNumber(req.params.revision);
+
+    await findOwnedBusinessPlan(id, userId);
+
+    const revision = await findRevision(id, revisionNumber);
+
+    if (!revision) {
+      throw new NotFoundError("리비전을 찾을 수 없습니다.");
+    }
+
+    res.json(formatRevision(revision));
+  })
+);
+
+// 사업계획서 리비전 복원 (복원 결과를 새 리비전으로 기록, 상태는 그대로 유지)
+router.post(
+  "/:id/revisions/:revision/restore",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const revisionNumber = parseRevisionNumber(req.params.revision);
+
+    const businessPlan = await findOwnedBusinessPlan(id, userId);
+    assertBusinessPlanVersion(businessPlan, getExpectedVersion(req, businessPlan.id));
+
+    const revision = await findRevision(id, revisionNumber);
+
+    if (!revision) {
+      throw new NotFoundError("리비전을 찾을 수 없습니다.");
+    }
+
+    const restoredPlan = await saveBusinessPlan(
+      businessPlan,
+      userId,
+      {
+        title: revision.title,
+        ...prepareBusinessPlanJson({ content: revision.content, data: revision.data }),
       },
+      { restoredFromRevision: revision.revision }
+    );
+
+    sendBusinessPlan(res, restoredPlan);
+  })
+);
+
+// 사업계획서 AI 생성 요청 (지원사업/기업 정보/입력으로 작업을 등록하고 202 응답)
+// - 작업이 성공하면 data 섹션을 저장하고 그때 이용권 차감, 실패하면 차감하지 않음
+router.post(
+  "/:id/generations",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const businessPlan = await findOwnedBusinessPlan(id, userId);
+    const job = await createGenerationJob(businessPlan, userId, req.body.inputs);
+    enqueueGenerationJob(job.id);
+
+    res.status(202).json(formatGenerationJob(job));
+  })
+);
+
+// 사업계획서 AI 생성 작업 목록 조회
+router.get(
+  "/:id/generations",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { page, limit, skip } = parsePaginationParams(
+      req.query as { page?: string; limit?: string }
+    );
+
+    await findOwnedBusinessPlan(id, userId);
+
+    const [jobs, total] = await Promise.all([
+      prisma.businessPlanGenerationJob.findMany({
+        where: { businessPlanId: id },
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.businessPlanGenerationJob.count({ where: { businessPlanId: id } }),
+    ]);
+
+    res.json(paginate(jobs.map(formatGenerationJob), total, page, limit));
+  })
+);
+
+// 사업계획서 AI 생성 작업 상태 조회 (queued | running | succeeded | failed)
+router.get(
+  "/:id/generations/:jobId",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id, jobId } = req.params;
+
+    await findOwnedBusinessPlan(id, userId);
+
+    const job = await prisma.businessPlanGenerationJob.findFirst({
+      where: { id: jobId, businessPlanId: id },
     });
 
-    res.json({
-      id: updatedBusinessPlan.id,
-      title: updatedBusinessPlan.title,
-      grantId: updatedBusinessPlan.grantId,
-      grantTitle: updatedBusinessPlan.grant?.title || null,
-      content: updatedBusinessPlan.content,
-      data: updatedBusinessPlan.data ?? null,
-      status: updatedBusinessPlan.status,
-      userId: updatedBusinessPlan.userId,
-      createdAt: updatedBusinessPlan.createdAt,
-      updatedAt: updatedBusinessPlan.updatedAt,
+    if (!job) {
+      throw new NotFoundError("생성 작업을 찾을 수 없습니다.");
+    }
+
+    res.json(formatGenerationJob(job));
+  })
+);
+
+// 사업계획서 AI 생성 진행 상황 스트리밍 (Server-Sent Events)
+// - status: 구독 시점의 작업 상태와 진행 상황
+// - progress/text/section: 섹션 생성 시작, 부분 텍스트, 섹션 생성 완료
+// - done: 저장된 사업계획서, error: 실패 사유와 이용권 반환 여부 (둘 중 하나로 종료)
+// - Authorization 헤더가 필요하므로 브라우저 EventSource 대신 fetch 스트림으로 읽어야 함
+router.get(
+  "/:id/generations/:jobId/events",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id, jobId } = req.params;
+
+    await findOwnedBusinessPlan(id, userId);
+
+    // 상태 조회 전에 구독해 그 사이에 끝나도 완료 이벤트를 놓치지 않음
+    // 스트림을 열기 전에 온 이벤트는 모아 두었다가 상태 이벤트 뒤에 전달
+    const pending: GenerationJobEvent[] = [];
+    let stream: ReturnType<typeof openEventStream> | null = null;
+
+    const forward = ({ type, ...data }: GenerationJobEvent) => {
+      stream!.send(type, data);
+      if (type === "done" || type === "error") stream!.close();
+    };
+    const unsubscribe = subscribeGenerationJob(jobId, (event) => {
+      if (stream) forward(event);
+      else pending.push(event);
+    });
+
+    // 조회가 실패하면 스트림을 열기 전이므로 일반 오류 응답으로 처리
+    let job;
+    let businessPlan = null;
+    try {
+      job = await prisma.businessPlanGenerationJob.findFirst({
+        where: { id: jobId, businessPlanId: id },
+      });
+      if (!job) {
+        throw new NotFoundError("생성 작업을 찾을 수 없습니다.");
+      }
+      if (job.status === "succeeded") {
+        businessPlan = await prisma.businessPlan.findUniqueOrThrow({
+          where: { id },
+          include: BUSINESS_PLAN_INCLUDE,
+        });
+      }
+    } catch (error) {
+      unsubscribe();
+      throw error;
+    }
+
+    stream = openEventStream(res, unsubscribe);
+
+    if (businessPlan) {
+      stream.send("done", { businessPlan: formatBusinessPlan(businessPlan) });
+      return stream.close();
+    }
+
+    if (job.status === "failed") {
+      stream.send("error", { message: job.error, refunded: job.chargedAt === null });
+      return stream.close();
+    }
+
+    stream.send("status", {
+      job: formatGenerationJob(job),
+      progress: getGenerationProgress(jobId),
     });
+    pending.forEach(forward);
+  })
+);
+
+// 섹션 AI 편집 요청 검증 (regenerate | shorten | expand | tone)
+const sectionProposalValidations = [
+  body("action")
+    .isIn(SECTION_EDIT_ACTIONS)
+    .withMessage(`action 은 ${SECTION_EDIT_ACTIONS.join(", ")} 중 하나여야 합니다.`),
+  body("tone")
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("tone 은 50자 이하의 문자열이어야 합니다."),
+];
+
+// 섹션 AI 편집 제안 (다시 생성/줄이기/늘리기/어조 변경, 편집 토큰 사용)
+// - 결과는 바로 반영하지 않고 제안으로 저장, 수락해야 섹션에 반영
+router.post(
+  "/:id/sections/:sectionKey/proposals",
+  authenticate,
+  validate(sectionProposalValidations),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { action, tone, inputs } = req.body;
+
+    const businessPlan = await findOwnedBusinessPlan(req.params.id, userId);
+    const proposal = await createSectionProposal(
+      businessPlan,
+      userId,
+      { sectionKey: req.params.sectionKey, subSectionIndex: null },
+      { action, tone, inputs }
+    );
+
+    res.status(201).json(formatSectionProposal(proposal));
+  })
+);
+
+// 하위 섹션 AI 편집 제안
+router.post(
+  "/:id/sections/:sectionKey/sub-sections/:index/proposals",
+  authenticate,
+  validate(sectionProposalValidations),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { action, tone, inputs } = req.body;
+    const subSectionIndex = parseSubSectionIndex(req.params.index);
+
+    const businessPlan = await findOwnedBusinessPlan(req.params.id, userId);
+    const proposal = await createSectionProposal(
+      businessPlan,
+      userId,
+      { sectionKey: req.params.sectionKey, subSectionIndex },
+      { action, tone, inputs }
+    );
+
+    res.status(201).json(formatSectionProposal(proposal));
+  })
+);
+
+// 섹션 AI 편집 제안 목록 조회 (?status=pending 등으로 필터)
+router.get(
+  "/:id/proposals",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    const { page, limit, skip } = parsePaginationParams(
+      req.query as { page?: string; limit?: string }
+    );
+
+    await findOwnedBusinessPlan(id, userId);
+
+    const where = { businessPlanId: id, ...(status && { status }) };
+    const [proposals, total] = await Promise.all([
+      prisma.businessPlanSectionProposal.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.businessPlanSectionProposal.count({ where }),
+    ]);
+
+    res.json(paginate(proposals.map(formatSectionProposal), total, page, limit));
+  })
+);
+
+// 섹션 AI 편집 제안 수락 (섹션에 반영하고 리비전 기록, If-Match 지원)
+router.post(
+  "/:id/proposals/:proposalId/accept",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id, proposalId } = req.params;
+
+    const businessPlan = await findOwnedBusinessPlan(id, userId);
+    assertBusinessPlanVersion(businessPlan, getExpectedVersion(req, businessPlan.id));
+    const proposal = await findSectionProposal(id, proposalId);
+
+    const updatedBusinessPlan = await acceptSectionProposal(businessPlan, userId, proposal);
+
+    sendBusinessPlan(res, updatedBusinessPlan);
+  })
+);
+
+// 섹션 AI 편집 제안 취소
+router.post(
+  "/:id/proposals/:proposalId/discard",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { id, proposalId } = req.params;
+
+    await findOwnedBusinessPlan(id, userId);
+    const proposal = await findSectionProposal(id, proposalId);
+
+    res.json(formatSectionProposal(await discardSectionProposal(proposal)));
   })
 );
 
@@ -43,6 +43,8 @@ router.get(
       credits,
       usedCredits,
       totalPurchased,
+      // 섹션 AI 편집 토큰 잔액
+      editTokens: req.user!.editTokens,
     });
   })
 );
@@ -8,6 +8,7 @@ import {
 } from "../middlewares/error.middleware";
 import { AuthRequest } from "../types";
 import { parsePaginationParams, paginate } from "../utils/pagination";
+import { buildGrantCalendar } from "../utils/ical";
 
 const router = Router();
 
@@ -161,4 +162,36 @@ router.get(
   })
 );
 
+// 4.5 찜한 지원사업 마감일 캘린더 구독 (.ics, 토큰 인증)
+// 캘린더 앱은 Authorization 헤더를 보낼 수 없으므로 URL 토큰으로 인증
+router.get(
+  "/calendar/:file",
+  asyncHandler(async (req: Request, res: Response) => {
+    const token = req.params.file.replace(/\.ics$/, "");
+
+    const user = token
+      ? await prisma.user.findUnique({ where: { calendarToken: token } })
+      : null;
+
+    if (!user) {
+      throw new NotFoundError("캘린더를 찾을 수 없습니다.");
+    }
+
+    const favorites = await prisma.favoriteGrant.findMany({
+      where: { userId: user.id, grant: { deadline: { not: null } } },
+      include: { grant: true },
+      orderBy: { grant: { deadline: "asc" } },
+    });
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Cache-Control", "private, max-age=900");
+    res.send(
+      buildGrantCalendar(
+        favorites.map((fav) => fav.grant),
+        "Zerocraft 찜한 지원사업 마감일"
+      )
+    );
+  })
+);
+
 export default router;
@@ -1,10 +1,368 @@
-import { Router, Request, Response } from "express";
+import express, { Router, Request, Response } from "express";
+import { body } from "express-validator";
+import { Grant, Prisma } from "@prisma/client";
 import { prisma } from "../utils/prisma";
-import { asyncHandler, NotFoundError } from "../middlewares/error.middleware";
+import { authenticate } from "../middlewares/auth.middleware";
+import { requireAdmin } from "../middlewares/admin.middleware";
+import { validate } from "../middlewares/validation.middleware";
+import {
+  asyncHandler,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../middlewares/error.middleware";
+import { AuthRequest, GrantContactInfo } from "../types";
 import { parsePaginationParams, paginate } from "../utils/pagination";
+import {
+  getDeadlineInfo,
+  isDeadlinePassed,
+  notExpiredDeadlineWhere,
+} from "../utils/grantDeadline";
+import { buildGrantCalendar } from "../utils/ical";
+import { toAmountNumber, toGrantAmountFields } from "../utils/grantAmount";
+import {
+  matchGrant,
+  RecommendationContext,
+  validateEligibilityCriteria,
+} from "../utils/grantEligibility";
+import {
+  GRANT_IMPORT_BODY_LIMIT,
+  GrantImportFormat,
+  importGrants,
+  parseGrantFile,
+} from "../utils/grantImport";
+import {
+  formatBusinessPlanTemplate,
+  validateTemplateSections,
+} from "../utils/businessPlanTemplates";
 
 const router = Router();
 
+// 연락처 정보에 허용되는 키
+const CONTACT_INFO_KEYS: (keyof GrantContactInfo)[] = ["phone", "email", "website"];
+
+// 지원사업 상세 응답 형식
+const formatGrantDetail = (grant: Grant) => ({
+  id: grant.id,
+  externalId: grant.externalId,
+  title: grant.title,
+  description: grant.description,
+  organization: grant.organization,
+  deadline: grant.deadline,
+  amount: grant.amount,
+  amountMin: toAmountNumber(grant.amountMin),
+  amountMax: toAmountNumber(grant.amountMax),
+  category: grant.category,
+  status: grant.status,
+  eligibility: grant.eligibility,
+  eligibilityCriteria: grant.eligibilityCriteria,
+  applicationMethod: grant.applicationMethod,
+  requiredDocuments: grant.requiredDocuments,
+  contactInfo: grant.contactInfo,
+  ...getDeadlineInfo(grant.deadline, grant.status),
+  closedAt: grant.closedAt,
+  createdAt: grant.createdAt,
+  updatedAt: grant.updatedAt,
+});
+
+// 지원사업 생성/수정 유효성 검사 (수정 시에는 모든 필드 선택)
+const grantValidations = (isUpdate: boolean) => {
+  const required = (field: string, label: string, max: number) =>
+    isUpdate
+      ? body(field)
+          .optional()
+          .isString()
+          .trim()
+          .notEmpty()
+          .withMessage(`${label}은(는) 비워둘 수 없습니다.`)
+          .isLength({ max })
+          .withMessage(`${label}은(는) ${max}자 이하여야 합니다.`)
+      : body(field)
+          .isString()
+          .trim()
+          .notEmpty()
+          .withMessage(`${label}은(는) 필수 항목입니다.`)
+          .isLength({ max })
+          .withMessage(`${label}은(는) ${max}자 이하여야 합니다.`);
+
+  const optionalString = (field: string, label: string, max?: number) => {
+    const chain = body(field)
+      .optional({ values: "null" })
+      .isString()
+      .withMessage(`${label}은(는) 문자열이어야 합니다.`);
+    return max
+      ? chain.isLength({ max }).withMessage(`${label}은(는) ${max}자 이하여야 합니다.`)
+      : chain;
+  };
+
+  return [
+    required("title", "제목", 500),
+    required("organization", "주관기관", 200),
+    optionalString("externalId", "외부 키", 100),
+    optionalString("description", "설명"),
+    optionalString("amount", "지원금액", 100),
+    optionalString("category", "분야", 100),
+    optionalString("eligibility", "지원자격"),
+    optionalString("applicationMethod", "신청방법", 200),
+    body("eligibilityCriteria")
+      .optional({ values: "null" })
+      .custom((criteria: unknown) => {
+        const errors = validateEligibilityCriteria(criteria);
+        if (errors.length > 0) {
+          throw new Error(errors.join(" "));
+        }
+        return true;
+      }),
+    body("deadline")
+      .optional({ values: "null" })
+      .isISO8601()
+      .withMessage("마감일은 ISO 8601 형식이어야 합니다."),
+    body("status")
+      .optional()
+      .isIn(["open", "closed"])
+      .withMessage("상태는 open 또는 closed 여야 합니다."),
+    body("requiredDocuments")
+      .optional({ values: "null" })
+      .isArray()
+      .withMessage("제출서류는 배열이어야 합니다.")
+      .custom((docs: unknown[]) =>
+        docs.every((doc) => typeof doc === "string" && doc.trim().length > 0)
+      )
+      .withMessage("제출서류 항목은 비어있지 않은 문자열이어야 합니다."),
+    body("contactInfo")
+      .optional({ values: "null" })
+      .isObject()
+      .withMessage("연락처 정보는 객체여야 합니다.")
+      .custom((info: Record<string, unknown>) =>
+        Object.keys(info).every((key) =>
+          CONTACT_INFO_KEYS.includes(key as keyof GrantContactInfo)
+        )
+      )
+      .withMessage(`연락처 정보에는 ${CONTACT_INFO_KEYS.join(", ")} 만 허용됩니다.`),
+    body("contactInfo.phone")
+      .optional({ values: "null" })
+      .isString()
+      .withMessage("연락처 전화번호는 문자열이어야 합니다."),
+    body("contactInfo.email")
+      .optional({ values: "null" })
+      .isEmail()
+      .withMessage("연락처 이메일 형식이 올바르지 않습니다."),
+    body("contactInfo.website")
+      .optional({ values: "null" })
+      .isURL()
+      .withMessage("연락처 웹사이트 URL 형식이 올바르지 않습니다."),
+  ];
+};
+
+// 요청 본문에서 Grant 저장용 데이터 구성 (전달된 필드만)
+const buildGrantData = (input: Record<string, any>) => {
+  const data: Prisma.GrantUncheckedUpdateInput = {};
+  const nullableJson = (value: unknown) =>
+    value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+
+  if (input.externalId !== undefined) data.externalId = input.externalId;
+  if (input.title !== undefined) data.title = input.title;
+  if (input.organization !== undefined) data.organization = input.organization;
+  if (input.description !== undefined) data.description = input.description;
+  if (input.amount !== undefined) {
+    data.amount = input.amount;
+    Object.assign(data, toGrantAmountFields(input.amount));
+  }
+  if (input.category !== undefined) data.category = input.category;
+  if (input.eligibility !== undefined) data.eligibility = input.eligibility;
+  if (input.eligibilityCriteria !== undefined)
+    data.eligibilityCriteria = nullableJson(input.eligibilityCriteria);
+  if (input.applicationMethod !== undefined)
+    data.applicationMethod = input.applicationMethod;
+  if (input.status !== undefined) data.status = input.status;
+  if (input.deadline !== undefined)
+    data.deadline = input.deadline ? new Date(input.deadline) : null;
+  if (input.requiredDocuments !== undefined)
+    data.requiredDocuments = nullableJson(input.requiredDocuments);
+  if (input.contactInfo !== undefined)
+    data.contactInfo = nullableJson(input.contactInfo);
+
+  return data;
+};
+
+// 외부 키 중복 확인 (자기 자신은 제외)
+const ensureExternalIdAvailable = async (
+  externalId: string | null | undefined,
+  excludeId?: string
+) => {
+  if (!externalId) return;
+
+  const duplicate = await prisma.grant.findUnique({ where: { externalId } });
+
+  if (duplicate && duplicate.id !== excludeId) {
+    throw new ConflictError("이미 사용 중인 외부 키입니다.");
+  }
+};
+
+// 금액 쿼리 파라미터 파싱 (KRW 정수)
+const parseAmountParam = (value: unknown, name: string) => {
+  if (value === undefined || value === "") return null;
+
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new BadRequestError(`${name}은(는) 0 이상의 정수여야 합니다.`);
+  }
+
+  return BigInt(parsed);
+};
+
+// 목록 조회 필터 (category, organization, status 는 복수 선택 가능)
+interface GrantListFilters {
+  categories: string[];
+  organizations: string[];
+  statuses: string[];
+  search: string | null;
+  minAmount: bigint | null;
+  maxAmount: bigint | null;
+}
+
+type GrantFacetField = "category" | "organization" | "status";
+
+// 기관 패싯은 상위 항목만 반환
+const ORGANIZATION_FACET_LIMIT = 50;
+
+// 반복 파라미터(?category=a&category=b) 와 콤마 구분(?category=a,b) 모두 허용
+// - 값 자체에 콤마가 들어갈 수 있는 필드(기관명)는 splitComma=false 로 반복 파라미터만 허용
+const toStringList = (value: unknown, splitComma = true): string[] => {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values
+    .flatMap((v) => (splitComma ? String(v).split(",") : [String(v)]))
+    .map((v) => v.trim())
+    .filter(Boolean);
+};
+
+const parseGrantListFilters = (query: Request["query"]): GrantListFilters => ({
+  categories: toStringList(query.category),
+  organizations: toStringList(query.organization, false),
+  statuses: toStringList(query.status).filter(
+    (status) => status === "open" || status === "closed"
+  ),
+  search: typeof query.search === "string" && query.search.trim() ? query.search.trim() : null,
+  minAmount: parseAmountParam(query.minAmount, "minAmount"),
+  maxAmount: parseAmountParam(query.maxAmount, "maxAmount"),
+});
+
+// 필터 → Prisma where 조건 (패싯 계산 시에는 해당 필드 필터를 제외)
+const buildGrantListWhere = (
+  filters: GrantListFilters,
+  omit?: GrantFacetField
+): Prisma.GrantWhereInput => {
+  const conditions: Prisma.GrantWhereInput[] = [];
+
+  if (omit !== "category" && filters.categories.length > 0) {
+    conditions.push({ category: { in: filters.categories } });
+  }
+
+  if (omit !== "organization" && filters.organizations.length > 0) {
+    conditions.push({ organization: { in: filters.organizations } });
+  }
+
+  if (omit !== "status" && filters.statuses.length > 0) {
+    conditions.push({ status: { in: filters.statuses } });
+
+    // 자동 마감 작업 실행 전이라도 마감일이 지난 지원사업은 모집 중으로 보지 않음
+    if (filters.statuses.length === 1 && filters.statuses[0] === "open") {
+      conditions.push(notExpiredDeadlineWhere());
+    }
+  }
+
+  if (filters.search) {
+    conditions.push({
+      OR: [
+        { title: { contains: filters.search } },
+        { organization: { contains: filters.search } },
+        { description: { contains: filters.search } },
+        { eligibility: { contains: filters.search } },
+      ],
+    });
+  }
+
+  // 지원금액 범위 필터 (KRW)
+  // - minAmount: 지원 상한(없으면 하한)이 minAmount 이상
+  // - maxAmount: 지원 하한(없으면 상한)이 maxAmount 이하
+  if (filters.minAmount !== null) {
+    conditions.push({
+      OR: [
+        { amountMax: { gte: filters.minAmount } },
+        { amountMax: null, amountMin: { gte: filters.minAmount } },
+      ],
+    });
+  }
+
+  if (filters.maxAmount !== null) {
+    conditions.push({
+      OR: [
+        { amountMin: { lte: filters.maxAmount } },
+        { amountMin: null, amountMax: { lte: filters.maxAmount } },
+      ],
+    });
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+};
+
+// 패싯 버킷 정렬 (건수 내림차순, 같으면 이름순)
+const toFacetBuckets = (rows: { value: string | null; count: number }[]) =>
+  rows
+    .filter((row): row is { value: string; count: number } => row.value !== null)
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+// 분야/기관/상태별 건수 (각 패싯은 자기 필드를 제외한 나머지 필터 기준)
+const getGrantFacets = async (filters: GrantListFilters) => {
+  const [categories, organizations, statuses] = await Promise.all([
+    prisma.grant.groupBy({
+      by: ["category"],
+      where: buildGrantListWhere(filters, "category"),
+      _count: { _all: true },
+    }),
+    prisma.grant.groupBy({
+      by: ["organization"],
+      where: buildGrantListWhere(filters, "organization"),
+      _count: { _all: true },
+    }),
+    // 모집 중 건수는 status=open 필터와 같이 마감일이 지난 지원사업 제외
+    prisma.grant.groupBy({
+      by: ["status"],
+      where: {
+        AND: [
+          buildGrantListWhere(filters, "status"),
+          { OR: [{ status: { not: "open" } }, notExpiredDeadlineWhere()] },
+        ],
+      },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return {
+    category: toFacetBuckets(
+      categories.map((row) => ({ value: row.category, count: row._count._all }))
+    ),
+    organization: toFacetBuckets(
+      organizations.map((row) => ({ value: row.organization, count: row._count._all }))
+    ).slice(0, ORGANIZATION_FACET_LIMIT),
+    status: toFacetBuckets(
+      statuses.map((row) => ({ value: row.status, count: row._count._all }))
+    ),
+  };
+};
+
+// 지원사업 조회 (없으면 404)
+const findGrantOrThrow = async (id: string) => {
+  const grant = await prisma.grant.findUnique({ where: { id } });
+
+  if (!grant) {
+    throw new NotFoundError("지원사업을 찾을 수 없습니다.");
+  }
+
+  return grant;
+};
+
 // 5.1 지원사업 목록 조회 (로그인 불필요)
 router.get(
   "/",
@@ -12,37 +370,23 @@ router.get(
     const { page, limit, skip } = parsePaginationParams(
       req.query as { page?: string; limit?: string }
     );
-    const {
-      category,
-      status,
-      search,
-      sort = "deadline",
-      order = "asc",
-    } = req.query;
-
-    const where: any = {};
-
-    if (category) {
-      where.category = category as string;
-    }
+    const { facets, sort = "deadline", order = "asc" } = req.query;
+    const filters = parseGrantListFilters(req.query);
+    const where = buildGrantListWhere(filters);
 
-    if (status && (status === "open" || status === "closed")) {
-      where.status = status;
-    }
-
-    if (search) {
-      where.OR = [
-        { title: { contains: search as string } },
-        { organization: { contains: search as string } },
-      ];
-    }
-
-    const orderBy: any = {};
+    const direction = order === "desc" ? "desc" : "asc";
+    let orderBy: any = {};
     if (sort === "deadline" || sort === "createdAt") {
-      orderBy[sort as string] = order === "desc" ? "desc" : "asc";
+      orderBy[sort as string] = direction;
+    } else if (sort === "amount") {
+      // 금액 정보가 없는 지원사업은 항상 뒤로
+      orderBy = [
+        { amountMax: { sort: direction, nulls: "last" } },
+        { amountMin: { sort: direction, nulls: "last" } },
+      ];
     }
 
-    const [grants, total] = await Promise.all([
+    const [grants, total, facetCounts] = await Promise.all([
       prisma.grant.findMany({
         where,
         orderBy,
@@ -50,6 +394,7 @@ router.get(
         take: limit,
       }),
       prisma.grant.count({ where }),
+      facets === "true" ? getGrantFacets(filters) : undefined,
     ]);
 
     const data = grants.map((grant) => ({
@@ -59,46 +404,377 @@ router.get(
       organization: grant.organization,
       deadline: grant.deadline,
       amount: grant.amount,
+      amountMin: toAmountNumber(grant.amountMin),
+      amountMax: toAmountNumber(grant.amountMax),
       category: grant.category,
       status: grant.status,
+      ...getDeadlineInfo(grant.deadline, grant.status),
       createdAt: grant.createdAt,
       updatedAt: grant.updatedAt,
     }));
 
-    res.json(paginate(data, total, page, limit));
+    res.json({
+      ...paginate(data, total, page, limit),
+      ...(facetCounts && { facets: facetCounts }),
+    });
   })
 );
 
-// 5.2 지원사업 상세 조회
+// 5.2 맞춤 추천 지원사업 (기업 정보, 찜, 사업계획서 기반)
+router.get(
+  "/recommended",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const limit = Math.min(
+      50,
+      Math.max(1, parseInt((req.query.limit as string) || "10", 10) || 10)
+    );
+    const now = new Date();
+
+    const [profile, favorites, plans, grants] = await Promise.all([
+      prisma.companyProfile.findUnique({ where: { userId } }),
+      prisma.favoriteGrant.findMany({
+        where: { userId },
+        include: { grant: { select: { category: true, organization: true } } },
+      }),
+      prisma.businessPlan.findMany({
+        where: { userId, grantId: { not: null } },
+        include: { grant: { select: { category: true } } },
+      }),
+      prisma.grant.findMany({
+        where: {
+          status: "open",
+          ...notExpiredDeadlineWhere(now),
+        },
+      }),
+    ]);
+
+    const context: RecommendationContext = {
+      favoriteGrantIds: new Set(favorites.map((fav) => fav.grantId)),
+      favoriteCategories: new Set(
+        favorites.map((fav) => fav.grant.category).filter((c): c is string => !!c)
+      ),
+      favoriteOrganizations: new Set(favorites.map((fav) => fav.grant.organization)),
+      planGrantIds: new Set(plans.map((plan) => plan.grantId!)),
+      planCategories: new Set(
+        plans.map((plan) => plan.grant?.category).filter((c): c is string => !!c)
+      ),
+    };
+
+    const recommendations = grants
+      .map((grant) => ({ grant, match: matchGrant(grant, profile, context, now) }))
+      .filter(({ match }) => match.eligible)
+      .sort(
+        (a, b) =>
+          b.match.score - a.match.score ||
+          (a.grant.deadline?.getTime() ?? Infinity) -
+            (b.grant.deadline?.getTime() ?? Infinity)
+      );
+
+    res.json({
+      data: recommendations.slice(0, limit).map(({ grant, match }) => ({
+        grant: {
+          id: grant.id,
+          title: grant.title,
+          organization: grant.organization,
+          deadline: grant.deadline,
+          amount: grant.amount,
+          category: grant.category,
+          status: grant.status,
+          ...getDeadlineInfo(grant.deadline, grant.status, now),
+        },
+        score: match.score,
+        reasons: match.reasons,
+        unknownCriteria: match.unknown,
+      })),
+      total: recommendations.length,
+      hasCompanyProfile: !!profile,
+    });
+  })
+);
+
+// 5.3 지원사업 상세 조회
 router.get(
   "/:id",
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
 
-    const grant = await prisma.grant.findUnique({
+    const grant = await findGrantOrThrow(id);
+
+    res.json(formatGrantDetail(grant));
+  })
+);
+
+// 지원사업 마감일 캘린더 파일 (.ics) 다운로드
+router.get(
+  "/:id/calendar.ics",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const grant = await findGrantOrThrow(id);
+
+    if (!grant.deadline) {
+      throw new BadRequestError("마감일이 없는 지원사업입니다.");
+    }
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="grant-${grant.id}.ics"`
+    );
+    res.send(buildGrantCalendar([grant], grant.title));
+  })
+);
+
+// 지원사업 사업계획서 양식 조회 (섹션 순서, 제목, 필수 항목, 글자 수 제한)
+router.get(
+  "/:id/template",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findGrantOrThrow(id);
+
+    const template = await prisma.businessPlanTemplate.findUnique({
+      where: { grantId: id },
+    });
+
+    if (!template) {
+      throw new NotFoundError("이 지원사업에 등록된 사업계획서 양식이 없습니다.");
+    }
+
+    res.json(formatBusinessPlanTemplate(template));
+  })
+);
+
+// =====================================================
+// 지원사업 관리 API (관리자)
+// =====================================================
+
+// 5.4 지원사업 등록
+router.post(
+  "/",
+  authenticate,
+  requireAdmin,
+  validate(grantValidations(false)),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    await ensureExternalIdAvailable(req.body.externalId);
+
+    const data = buildGrantData(req.body) as Prisma.GrantUncheckedCreateInput;
+    if (data.status === "closed") {
+      data.closedAt = new Date();
+    }
+
+    const grant = await prisma.grant.create({ data });
+
+    res.status(201).json(formatGrantDetail(grant));
+  })
+);
+
+// 5.5 지원사업 일괄 가져오기 (CSV/JSON, externalId 기준 upsert)
+// - Content-Type: text/csv 또는 application/json 본문을 그대로 전송
+// - ?dryRun=true 이면 저장하지 않고 행별 결과 보고서만 반환
+router.post(
+  "/import",
+  authenticate,
+  requireAdmin,
+  // JSON 본문은 전역 파서보다 먼저 app.ts 에서 같은 제한으로 읽음
+  express.text({ type: ["text/csv", "text/plain"], limit: GRANT_IMPORT_BODY_LIMIT }),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const dryRun = req.query.dryRun === "true";
+    let records: unknown[];
+    let format: GrantImportFormat;
+
+    if (typeof req.body === "string") {
+      format = "csv";
+      records = parseGrantFile(req.body, format);
+    } else {
+      format = "json";
+      const payload = req.body?.grants ?? req.body;
+      if (!Array.isArray(payload)) {
+        throw new BadRequestError(
+          "JSON 본문은 배열 또는 { grants: [...] } 형식이어야 합니다."
+        );
+      }
+      records = payload;
+    }
+
+    if (records.length === 0) {
+      throw new BadRequestError("가져올 지원사업 데이터가 없습니다.");
+    }
+
+    const report = await importGrants(records, { dryRun, format });
+
+    res.status(dryRun ? 200 : 201).json(report);
+  })
+);
+
+// 5.6 지원사업 수정
+router.put(
+  "/:id",
+  authenticate,
+  requireAdmin,
+  validate(grantValidations(true)),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+
+    const existing = await findGrantOrThrow(id);
+    await ensureExternalIdAvailable(req.body.externalId, id);
+
+    const data = buildGrantData(req.body);
+    if (req.body.status && req.body.status !== existing.status) {
+      data.closedAt = req.body.status === "closed" ? new Date() : null;
+    }
+
+    const grant = await prisma.grant.update({
+      where: { id },
+      data,
+    });
+
+    res.json(formatGrantDetail(grant));
+  })
+);
+
+// 5.7 지원사업 마감 처리
+router.post(
+  "/:id/close",
+  authenticate,
+  requireAdmin,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+
+    const existing = await findGrantOrThrow(id);
+
+    if (existing.status === "closed") {
+      throw new BadRequestError("이미 마감된 지원사업입니다.");
+    }
+
+    const grant = await prisma.grant.update({
+      where: { id },
+      data: { status: "closed", closedAt: new Date() },
+    });
+
+    res.json(formatGrantDetail(grant));
+  })
+);
+
+// 5.8 지원사업 재오픈
+router.post(
+  "/:id/reopen",
+  authenticate,
+  requireAdmin,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+
+    const existing = await findGrantOrThrow(id);
+
+    if (existing.status === "open") {
+      throw new BadRequestError("이미 모집 중인 지원사업입니다.");
+    }
+
+    // 마감일이 지난 상태로 재오픈하면 자동 마감 작업이 다시 마감 처리함
+    if (existing.deadline && isDeadlinePassed(existing.deadline)) {
+      throw new BadRequestError(
+        "마감일이 지난 지원사업입니다. 마감일을 먼저 수정해주세요."
+      );
+    }
+
+    const grant = await prisma.grant.update({
       where: { id },
+      data: { status: "open", closedAt: null },
+    });
+
+    res.json(formatGrantDetail(grant));
+  })
+);
+
+// 5.9 지원사업 삭제 (연결된 사업계획서가 있으면 force=true 필요)
+router.delete(
+  "/:id",
+  authenticate,
+  requireAdmin,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const force = req.query.force === "true";
+
+    await findGrantOrThrow(id);
+
+    const businessPlanCount = await prisma.businessPlan.count({
+      where: { grantId: id },
     });
 
-    if (!grant) {
-      throw new NotFoundError("지원사업을 찾을 수 없습니다.");
+    if (businessPlanCount > 0 && !force) {
+      throw new ConflictError(
+        `이 지원사업에 연결된 사업계획서가 ${businessPlanCount}건 있습니다. 삭제하려면 force=true 를 지정하세요.`
+      );
     }
 
+    // 연결된 사업계획서의 grantId는 스키마의 onDelete: SetNull 로 해제됨
+    await prisma.grant.delete({
+      where: { id },
+    });
+
     res.json({
-      id: grant.id,
-      title: grant.title,
-      description: grant.description,
-      organization: grant.organization,
-      deadline: grant.deadline,
-      amount: grant.amount,
-      category: grant.category,
-      status: grant.status,
-      eligibility: grant.eligibility,
-      applicationMethod: grant.applicationMethod,
-      requiredDocuments: grant.requiredDocuments,
-      contactInfo: grant.contactInfo,
-      createdAt: grant.createdAt,
-      updatedAt: grant.updatedAt,
+      message: "지원사업이 삭제되었습니다.",
+      detachedBusinessPlans: businessPlanCount,
+    });
+  })
+);
+
+// 5.10 지원사업 사업계획서 양식 등록/수정 (지원사업당 1개)
+router.put(
+  "/:id/template",
+  authenticate,
+  requireAdmin,
+  validate([
+    body("name")
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage("양식 이름은 필수 항목입니다.")
+      .isLength({ max: 200 })
+      .withMessage("양식 이름은 200자 이하여야 합니다."),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const { name, sections } = req.body;
+
+    const errors = validateTemplateSections(sections);
+    if (errors.length > 0) {
+      throw new ValidationError(errors);
+    }
+
+    await findGrantOrThrow(id);
+
+    const template = await prisma.businessPlanTemplate.upsert({
+      where: { grantId: id },
+      create: { grantId: id, name, sections },
+      update: { name, sections },
     });
+
+    res.json(formatBusinessPlanTemplate(template));
+  })
+);
+
+// 5.11 지원사업 사업계획서 양식 삭제
+router.delete(
+  "/:id/template",
+  authenticate,
+  requireAdmin,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+
+    const template = await prisma.businessPlanTemplate.findUnique({
+      where: { grantId: id },
+    });
+
+    if (!template) {
+      throw new NotFoundError("이 지원사업에 등록된 사업계획서 양식이 없습니다.");
+    }
+
+    await prisma.businessPlanTemplate.delete({ where: { grantId: id } });
+
+    res.json({ message: "사업계획서 양식이 삭제되었습니다." });
   })
 );
 
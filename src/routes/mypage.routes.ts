@@ -1,8 +1,26 @@
+import crypto from "crypto";
 import { Router, Response } from "express";
+import { body } from "express-validator";
 import { prisma } from "../utils/prisma";
 import { authenticate } from "../middlewares/auth.middleware";
+import { validate } from "../middlewares/validation.middleware";
 import { asyncHandler } from "../middlewares/error.middleware";
 import { AuthRequest } from "../types";
+import {
+  REGIONS,
+  REVENUE_BAND_LABELS,
+  formatCompanyProfile,
+  isValidBusinessRegistrationNumber,
+  normalizeBusinessRegistrationNumber,
+} from "../utils/companyProfile";
+import {
+  MAX_REMINDER_COUNT,
+  MAX_REMINDER_DAY,
+  resolveReminderSetting,
+} from "../utils/reminderSettings";
+import { parsePaginationParams, paginate } from "../utils/pagination";
+import { getApiBaseUrl } from "../utils/urls";
+import { APPLIED_STATUSES, summarizeApplication } from "../utils/businessPlanStatus";
 
 const router = Router();
 
@@ -17,11 +35,19 @@ router.get(
     const favoriteLimit = parseInt(req.query.favoriteLimit as string) || 5;
 
     // 병렬로 데이터 조회
-    const [user, businessPlans, businessPlanTotal, favorites, favoriteTotal] =
-      await Promise.all([
+    const [
+      user,
+      businessPlans,
+      businessPlanTotal,
+      favorites,
+      favoriteTotal,
+      applications,
+      applicationCounts,
+    ] = await Promise.all([
         // 사용자 정보
         prisma.user.findUnique({
           where: { id: userId },
+          include: { companyProfile: true },
         }),
         // 최근 사업계획서
         prisma.businessPlan.findMany({
@@ -58,8 +84,35 @@ router.get(
         }),
         // 총 찜한 지원사업 수
         prisma.favoriteGrant.count({ where: { userId } }),
+        // 최근 지원한 사업계획서 (제출/선정/탈락)
+        prisma.businessPlan.findMany({
+          where: { userId, status: { in: APPLIED_STATUSES } },
+          include: {
+            grant: {
+              select: {
+                id: true,
+                title: true,
+              },
+            },
+            statusChanges: {
+              where: { toStatus: { in: APPLIED_STATUSES } },
+              select: { toStatus: true, note: true, createdAt: true },
+            },
+          },
+          orderBy: { updatedAt: "desc" },
+          take: businessPlanLimit,
+        }),
+        // 지원 결과별 사업계획서 수
+        prisma.businessPlan.groupBy({
+          by: ["status"],
+          where: { userId, status: { in: APPLIED_STATUSES } },
+          _count: { _all: true },
+        }),
       ]);
 
+    const countByStatus = (status: string) =>
+      applicationCounts.find((count) => count.status === status)?._count._all ?? 0;
+
     res.json({
       user: {
         id: user!.id,
@@ -69,6 +122,9 @@ router.get(
         credits: user!.credits,
         createdAt: user!.createdAt,
       },
+      companyProfile: user!.companyProfile
+        ? formatCompanyProfile(user!.companyProfile)
+        : null,
       businessPlans: {
         data: businessPlans.map((bp) => ({
           id: bp.id,
@@ -80,6 +136,21 @@ router.get(
         })),
         total: businessPlanTotal,
       },
+      applications: {
+        data: applications.map((bp) => ({
+          businessPlanId: bp.id,
+          title: bp.title,
+          grantId: bp.grant?.id || null,
+          grantTitle: bp.grant?.title || null,
+          status: bp.status,
+          ...summarizeApplication(bp.status, bp.statusChanges),
+        })),
+        summary: {
+          submitted: countByStatus("submitted"),
+          selected: countByStatus("selected"),
+          rejected: countByStatus("rejected"),
+        },
+      },
       favorites: {
         data: favorites.map((fav) => ({
           id: fav.id,
@@ -99,4 +170,246 @@ router.get(
   })
 );
 
+// 6.2 기업 정보 조회
+router.get(
+  "/company-profile",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+
+    const profile = await prisma.companyProfile.findUnique({
+      where: { userId },
+    });
+
+    res.json(profile ? formatCompanyProfile(profile) : null);
+  })
+);
+
+// 6.3 기업 정보 저장 (없으면 생성, 전달된 필드만 수정)
+router.put(
+  "/company-profile",
+  authenticate,
+  validate([
+    body("companyName")
+      .optional({ values: "null" })
+      .isString()
+      .isLength({ max: 200 })
+      .withMessage("기업명은 200자 이하여야 합니다."),
+    body("businessRegistrationNumber")
+      .optional({ values: "null" })
+      .isString()
+      .custom((value: string) => isValidBusinessRegistrationNumber(value))
+      .withMessage("유효하지 않은 사업자등록번호입니다."),
+    body("foundedAt")
+      .optional({ values: "null" })
+      .isISO8601()
+      .withMessage("개업연월일은 YYYY-MM-DD 형식이어야 합니다."),
+    body("industryCode")
+      .optional({ values: "null" })
+      .matches(/^[A-Z]?\d{1,5}$/)
+      .withMessage("업종 코드는 한국표준산업분류(KSIC) 코드 형식이어야 합니다."),
+    body("region")
+      .optional({ values: "null" })
+      .isIn(REGIONS)
+      .withMessage(`소재지는 ${REGIONS.join(", ")} 중 하나여야 합니다.`),
+    body("employeeCount")
+      .optional({ values: "null" })
+      .isInt({ min: 0 })
+      .withMessage("종업원 수는 0 이상의 정수여야 합니다."),
+    body("revenueBand")
+      .optional({ values: "null" })
+      .isIn(Object.keys(REVENUE_BAND_LABELS))
+      .withMessage("유효하지 않은 매출 규모입니다."),
+    body("founderBirthDate")
+      .optional({ values: "null" })
+      .isISO8601()
+      .withMessage("대표자 생년월일은 YYYY-MM-DD 형식이어야 합니다."),
+    body("founderGender")
+      .optional({ values: "null" })
+      .isIn(["male", "female"])
+      .withMessage("대표자 성별은 male 또는 female 이어야 합니다."),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const input = req.body;
+    const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+    const data: Record<string, unknown> = {};
+    if (input.companyName !== undefined) data.companyName = input.companyName;
+    if (input.businessRegistrationNumber !== undefined)
+      data.businessRegistrationNumber = input.businessRegistrationNumber
+        ? normalizeBusinessRegistrationNumber(input.businessRegistrationNumber)
+        : null;
+    if (input.foundedAt !== undefined) data.foundedAt = toDate(input.foundedAt);
+    if (input.industryCode !== undefined) data.industryCode = input.industryCode;
+    if (input.region !== undefined) data.region = input.region;
+    if (input.employeeCount !== undefined)
+      data.employeeCount =
+        input.employeeCount === null ? null : Number(input.employeeCount);
+    if (input.revenueBand !== undefined) data.revenueBand = input.revenueBand;
+    if (input.founderBirthDate !== undefined)
+      data.founderBirthDate = toDate(input.founderBirthDate);
+    if (input.founderGender !== undefined) data.founderGender = input.founderGender;
+
+    const profile = await prisma.companyProfile.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    res.json(formatCompanyProfile(profile));
+  })
+);
+
+// 6.4 마감 알림 설정 조회
+router.get(
+  "/reminder-settings",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+
+    const setting = await prisma.reminderSetting.findUnique({
+      where: { userId },
+    });
+
+    res.json(resolveReminderSetting(setting));
+  })
+);
+
+// 6.5 마감 알림 설정 저장
+router.put(
+  "/reminder-settings",
+  authenticate,
+  validate([
+    body("enabled")
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("enabled 는 boolean 이어야 합니다."),
+    body("daysBefore")
+      .optional()
+      .isArray({ max: MAX_REMINDER_COUNT })
+      .withMessage(`알림 시점은 최대 ${MAX_REMINDER_COUNT}개까지 설정할 수 있습니다.`),
+    body("daysBefore.*")
+      .isInt({ min: 0, max: MAX_REMINDER_DAY })
+      .withMessage(`알림 시점은 0~${MAX_REMINDER_DAY}일 사이여야 합니다.`),
+  ]),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const existing = await prisma.reminderSetting.findUnique({
+      where: { userId },
+    });
+    const current = resolveReminderSetting(existing);
+
+    const enabled: boolean = req.body.enabled ?? current.enabled;
+    const daysBefore: number[] = req.body.daysBefore
+      ? [...new Set<number>(req.body.daysBefore.map(Number))].sort((a, b) => b - a)
+      : current.daysBefore;
+
+    const setting = await prisma.reminderSetting.upsert({
+      where: { userId },
+      create: { userId, enabled, daysBefore },
+      update: { enabled, daysBefore },
+    });
+
+    res.json(resolveReminderSetting(setting));
+  })
+);
+
+// 6.6 마감 알림 발송 내역
+router.get(
+  "/reminders",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const { page, limit, skip } = parsePaginationParams(
+      req.query as { page?: string; limit?: string }
+    );
+
+    const [deliveries, total] = await Promise.all([
+      prisma.reminderDelivery.findMany({
+        where: { userId },
+        include: {
+          grant: {
+            select: {
+              id: true,
+              title: true,
+              deadline: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.reminderDelivery.count({ where: { userId } }),
+    ]);
+
+    const data = deliveries.map((delivery) => ({
+      id: delivery.id,
+      grant: delivery.grant,
+      daysBefore: delivery.daysBefore,
+      channel: delivery.channel,
+      status: delivery.status,
+      sentAt: delivery.sentAt,
+      createdAt: delivery.createdAt,
+    }));
+
+    res.json(paginate(data, total, page, limit));
+  })
+);
+
+// 찜 캘린더 구독 URL
+const getCalendarFeedUrl = (req: AuthRequest, token: string) =>
+  `${getApiBaseUrl(req)}/api/favorites/calendar/${token}.ics`;
+
+// 6.7 찜 캘린더 구독 정보 조회
+router.get(
+  "/calendar",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const token = req.user!.calendarToken;
+
+    res.json({
+      enabled: !!token,
+      feedUrl: token ? getCalendarFeedUrl(req, token) : null,
+    });
+  })
+);
+
+// 6.8 찜 캘린더 구독 토큰 발급 (기존 토큰은 폐기)
+router.post(
+  "/calendar/token",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+    const token = crypto.randomBytes(24).toString("hex");
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { calendarToken: token },
+    });
+
+    res.status(201).json({
+      enabled: true,
+      feedUrl: getCalendarFeedUrl(req, token),
+    });
+  })
+);
+
+// 6.9 찜 캘린더 구독 토큰 폐기
+router.delete(
+  "/calendar/token",
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const userId = req.user!.id;
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { calendarToken: null },
+    });
+
+    res.json({ message: "캘린더 구독이 해제되었습니다." });
+  })
+);
+
 export default router;
@@ -0,0 +1,226 @@
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import { PlanBlock, PlanExporter, PlanOutline } from "./types";
+
+const NUMBERED_LIST = "plan-numbered-list";
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}. ${date.getMonth() + 1}. ${date.getDate()}.`;
+
+// 표 칸 (머리글 행은 굵게, 음영)
+const tableCell = (text: string, header: boolean) =>
+  new TableCell({
+    children: [
+      new Paragraph({ children: [new TextRun({ text, bold: header })] }),
+    ],
+    shading: header
+      ? { type: ShadingType.CLEAR, color: "auto", fill: "E7E6E6" }
+      : undefined,
+    margins: { top: 60, bottom: 60, left: 100, right: 100 },
+  });
+
+const renderTable = (columns: string[], rows: string[][]) =>
+  new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: columns.map((column) => tableCell(column, true)),
+      }),
+      ...rows.map(
+        (row) => new TableRow({ children: row.map((cell) => tableCell(cell, false)) })
+      ),
+    ],
+  });
+
+// 블록 → 문단/표 (번호 목록은 목록마다 번호를 1부터 다시 시작)
+const renderBlock = (block: PlanBlock, listInstance: number): (Paragraph | Table)[] => {
+  switch (block.type) {
+    case "subheading":
+      return [
+        new Paragraph({
+          text: block.text,
+          heading: HeadingLevel.HEADING_2,
+          spacing: { before: 300, after: 150 },
+        }),
+      ];
+    case "label":
+      return [
+        new Paragraph({
+          children: [new TextRun({ text: block.text, bold: true })],
+          spacing: { before: 150, after: 50 },
+        }),
+      ];
+    case "field":
+      return [
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: block.indent ? `  - ${block.label}: ` : `${block.label}: `,
+              bold: true,
+            }),
+            new TextRun(block.value),
+          ],
+          spacing: { after: block.indent ? 50 : 100 },
+        }),
+      ];
+    case "list":
+      return block.items.map(
+        (item) =>
+          new Paragraph({
+            text: item,
+            ...(block.ordered
+              ? { numbering: { reference: NUMBERED_LIST, level: 0, instance: listInstance } }
+              : { bullet: { level: 0 } }),
+            spacing: { after: 80 },
+          })
+      );
+    case "table":
+      return [
+        renderTable(block.columns, block.rows),
+        // 표 바로 뒤 여백
+        new Paragraph({ spacing: { after: 100 } }),
+      ];
+  }
+};
+
+// 표지
+const renderCoverPage = (outline: PlanOutline) => [
+  new Paragraph({ spacing: { before: 3600 } }),
+  new Paragraph({
+    text: outline.title,
+    heading: HeadingLevel.TITLE,
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 400 },
+  }),
+  ...[outline.planTitle !== outline.title ? outline.planTitle : null, outline.grantTitle]
+    .filter((text): text is string => !!text)
+    .map(
+      (text) =>
+        new Paragraph({
+          children: [new TextRun({ text, size: 28 })],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 200 },
+        })
+    ),
+  new Paragraph({
+    children: [new TextRun({ text: formatDate(new Date()), size: 24 })],
+    alignment: AlignmentType.CENTER,
+    spacing: { before: 2400 },
+  }),
+  new Paragraph({ children: [new PageBreak()] }),
+];
+
+// 목차 (Word 에서 열 때 필드를 갱신해 쪽 번호를 채움)
+const renderTableOfContents = () => [
+  new Paragraph({
+    children: [new TextRun({ text: "목차", bold: true, size: 32 })],
+    spacing: { after: 300 },
+  }),
+  new TableOfContents("목차", {
+    hyperlink: true,
+    headingStyleRange: "1-1",
+  }),
+  new Paragraph({ children: [new PageBreak()] }),
+];
+
+// DOCX (Word) 내보내기 (표지, 목차, 머리글/바닥글, 표, 번호 목록 포함)
+export class DocxExporter implements PlanExporter {
+  format = "docx";
+  contentType =
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+  extension = "docx";
+
+  async render(outline: PlanOutline) {
+    const children: (Paragraph | Table | TableOfContents)[] = [
+      ...renderCoverPage(outline),
+      ...renderTableOfContents(),
+    ];
+    let listInstance = 0;
+
+    outline.sections.forEach((section, i) => {
+      children.push(
+        new Paragraph({
+          text: `${i + 1}. ${section.title}`,
+          heading: HeadingLevel.HEADING_1,
+          spacing: { before: 400, after: 200 },
+        })
+      );
+      for (const block of section.blocks) {
+        if (block.type === "list" && block.ordered) listInstance++;
+        children.push(...renderBlock(block, listInstance));
+      }
+    });
+
+    const doc = new Document({
+      title: outline.title,
+      features: { updateFields: true },
+      numbering: {
+        config: [
+          {
+            reference: NUMBERED_LIST,
+            levels: [
+              {
+                level: 0,
+                format: LevelFormat.DECIMAL,
+                text: "%1.",
+                alignment: AlignmentType.START,
+                style: { paragraph: { indent: { left: 480, hanging: 360 } } },
+              },
+            ],
+          },
+        ],
+      },
+      sections: [
+        {
+          // 표지에는 머리글/바닥글을 넣지 않음
+          properties: { titlePage: true },
+          headers: {
+            default: new Header({
+              children: [
+                new Paragraph({
+                  children: [new TextRun({ text: outline.title, size: 18, color: "808080" })],
+                  alignment: AlignmentType.RIGHT,
+                }),
+              ],
+            }),
+            first: new Header({ children: [] }),
+          },
+          footers: {
+            default: new Footer({
+              children: [
+                new Paragraph({
+                  children: [
+                    new TextRun({ children: ["- ", PageNumber.CURRENT, " -"], size: 18 }),
+                  ],
+                  alignment: AlignmentType.CENTER,
+                }),
+              ],
+            }),
+            first: new Footer({ children: [] }),
+          },
+          children,
+        },
+      ],
+    });
+
+    return Packer.toBuffer(doc);
+  }
+}
@@ -0,0 +1,289 @@
+import JSZip from "jszip";
+import { PlanBlock, PlanExporter, PlanOutline } from "./types";
+
+// HWPX (OWPML, KS X 6101) 네임스페이스
+const NS = {
+  ha: "http://www.hancom.co.kr/hwpml/2011/app",
+  hp: "http://www.hancom.co.kr/hwpml/2011/paragraph",
+  hs: "http://www.hancom.co.kr/hwpml/2011/section",
+  hc: "http://www.hancom.co.kr/hwpml/2011/core",
+  hh: "http://www.hancom.co.kr/hwpml/2011/head",
+  hv: "http://www.hancom.co.kr/hwpml/2011/version",
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes" ?>';
+
+const FONT_FACE = "함초롬돋움";
+const FONT_LANGS = ["HANGUL", "LATIN", "HANJA", "JAPANESE", "OTHER", "SYMBOL", "USER"];
+
+// 글자 모양 (id 순서대로 header.xml 에 기록)
+const CHAR_PR = {
+  normal: { id: 0, height: 1000, bold: false },
+  bold: { id: 1, height: 1000, bold: true },
+  title: { id: 2, height: 2000, bold: true },
+  heading1: { id: 3, height: 1500, bold: true },
+  heading2: { id: 4, height: 1200, bold: true },
+};
+
+// 문단 모양 (left: 왼쪽 여백, prev/next: 문단 위/아래 간격, HWPUNIT)
+const PARA_PR = {
+  normal: { id: 0, align: "JUSTIFY", left: 0, prev: 0, next: 300 },
+  center: { id: 1, align: "CENTER", left: 0, prev: 0, next: 1600 },
+  heading1: { id: 2, align: "LEFT", left: 0, prev: 1600, next: 600 },
+  heading2: { id: 3, align: "LEFT", left: 0, prev: 1000, next: 400 },
+  indent: { id: 4, align: "LEFT", left: 1200, prev: 0, next: 200 },
+};
+
+type CharPrKey = keyof typeof CHAR_PR;
+type ParaPrKey = keyof typeof PARA_PR;
+type Run = { text: string; charPr: CharPrKey };
+
+const escapeXml = (value: string) =>
+  value
+    // XML 1.0 에서 허용되지 않는 제어 문자 제거
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const langAttrs = (value: string | number) =>
+  ["hangul", "latin", "hanja", "japanese", "other", "symbol", "user"]
+    .map((lang) => `${lang}="${value}"`)
+    .join(" ");
+
+const renderCharPr = ({ id, height, bold }: (typeof CHAR_PR)[CharPrKey]) =>
+  `<hh:charPr id="${id}" height="${height}" textColor="#000000" shadeColor="none" useFontSpace="0" useKerning="0" symMark="NONE" borderFillIDRef="1">` +
+  `<hh:fontRef ${langAttrs(0)}/>` +
+  `<hh:ratio ${langAttrs(100)}/>` +
+  `<hh:spacing ${langAttrs(0)}/>` +
+  `<hh:relSz ${langAttrs(100)}/>` +
+  `<hh:offset ${langAttrs(0)}/>` +
+  (bold ? "<hh:bold/>" : "") +
+  '<hh:underline type="NONE" shape="SOLID" color="#000000"/>' +
+  '<hh:strikeout shape="NONE" color="#000000"/>' +
+  '<hh:outline type="NONE"/>' +
+  '<hh:shadow type="NONE" color="#B2B2B2" offsetX="10" offsetY="10"/>' +
+  "</hh:charPr>";
+
+const renderParaPr = ({ id, align, left, prev, next }: (typeof PARA_PR)[ParaPrKey]) =>
+  `<hh:paraPr id="${id}" tabPrIDRef="0" condense="0" fontLineHeight="0" snapToGrid="1" suppressLineNumbers="0" checked="0">` +
+  `<hh:align horizontal="${align}" vertical="BASELINE"/>` +
+  '<hh:heading type="NONE" idRef="0" level="0"/>' +
+  '<hh:breakSetting breakLatinWord="KEEP_WORD" breakNonLatinWord="KEEP_WORD" widowOrphan="0" keepWithNext="0" keepLines="0" pageBreakBefore="0" lineWrap="BREAK"/>' +
+  '<hh:autoSpacing eAsianEng="0" eAsianNum="0"/>' +
+  "<hh:margin>" +
+  '<hc:intent value="0" unit="HWPUNIT"/>' +
+  `<hc:left value="${left}" unit="HWPUNIT"/>` +
+  '<hc:right value="0" unit="HWPUNIT"/>' +
+  `<hc:prev value="${prev}" unit="HWPUNIT"/>` +
+  `<hc:next value="${next}" unit="HWPUNIT"/>` +
+  "</hh:margin>" +
+  '<hh:lineSpacing type="PERCENT" value="160" unit="HWPUNIT"/>' +
+  '<hh:border borderFillIDRef="1" offsetLeft="0" offsetRight="0" offsetTop="0" offsetBottom="0" connect="0" ignoreMargin="0"/>' +
+  "</hh:paraPr>";
+
+const renderBorderFill = (id: number) =>
+  `<hh:borderFill id="${id}" threeD="0" shadow="0" centerLine="NONE" breakCellSeparateLine="0">` +
+  '<hh:slash type="NONE" Crooked="0" isCounter="0"/>' +
+  '<hh:backSlash type="NONE" Crooked="0" isCounter="0"/>' +
+  ["leftBorder", "rightBorder", "topBorder", "bottomBorder"]
+    .map((side) => `<hh:${side} type="NONE" width="0.1 mm" color="#000000"/>`)
+    .join("") +
+  '<hh:diagonal type="SOLID" width="0.1 mm" color="#000000"/>' +
+  "</hh:borderFill>";
+
+// 문서 공통 설정 (글꼴, 글자/문단 모양, 스타일)
+const buildHeaderXml = () => {
+  const charPrs = Object.values(CHAR_PR);
+  const paraPrs = Object.values(PARA_PR);
+
+  return (
+    XML_DECLARATION +
+    `<hh:head xmlns:hh="${NS.hh}" xmlns:hc="${NS.hc}" xmlns:hp="${NS.hp}" version="1.4" secCnt="1">` +
+    '<hh:beginNum page="1" footnote="1" endnote="1" pic="1" tbl="1" equation="1"/>' +
+    "<hh:refList>" +
+    `<hh:fontfaces itemCnt="${FONT_LANGS.length}">` +
+    FONT_LANGS.map(
+      (lang) =>
+        `<hh:fontface lang="${lang}" fontCnt="1"><hh:font id="0" face="${FONT_FACE}" type="TTF" isEmbedded="0"/></hh:fontface>`
+    ).join("") +
+    "</hh:fontfaces>" +
+    `<hh:borderFills itemCnt="1">${renderBorderFill(1)}</hh:borderFills>` +
+    `<hh:charProperties itemCnt="${charPrs.length}">${charPrs.map(renderCharPr).join("")}</hh:charProperties>` +
+    '<hh:tabProperties itemCnt="1"><hh:tabPr id="0" autoTabLeft="0" autoTabRight="0"/></hh:tabProperties>' +
+    `<hh:paraProperties itemCnt="${paraPrs.length}">${paraPrs.map(renderParaPr).join("")}</hh:paraProperties>` +
+    '<hh:styles itemCnt="1">' +
+    '<hh:style id="0" type="PARA" name="바탕글" engName="Normal" paraPrIDRef="0" charPrIDRef="0" nextStyleIDRef="0" langID="1042" lockForm="0"/>' +
+    "</hh:styles>" +
+    "</hh:refList>" +
+    '<hh:compatibleDocument targetProgram="HWP201X"><hh:layoutCompatibility/></hh:compatibleDocument>' +
+    '<hh:docOption><hh:linkinfo path="" pageInherit="0" footnoteInherit="0"/></hh:docOption>' +
+    "</hh:head>"
+  );
+};
+
+// 구역 설정 (A4, 여백) - 첫 문단의 첫 run 에 들어감
+const SECTION_PROPERTIES =
+  '<hp:secPr id="" textDirection="HORIZONTAL" spaceColumns="1134" tabStop="8000" tabStopVal="4000" tabStopUnit="HWPUNIT" outlineShapeIDRef="0" memoShapeIDRef="0" textVerticalWidthHead="0" masterPageCnt="0">' +
+  '<hp:grid lineGrid="0" charGrid="0" wonggojiFormat="0"/>' +
+  '<hp:startNum pageStartsOn="BOTH" page="0" pic="0" tbl="0" equation="0"/>' +
+  '<hp:visibility hideFirstHeader="0" hideFirstFooter="0" hideFirstMasterPage="0" border="SHOW_ALL" fill="SHOW_ALL" hideFirstPageNum="0" hideFirstEmptyLine="0" showLineNumber="0"/>' +
+  '<hp:lineNumberShape restartType="0" countBy="0" distance="0" startNumber="0"/>' +
+  '<hp:pagePr landscape="WIDELY" width="59528" height="84186" gutterType="LEFT_ONLY">' +
+  '<hp:margin header="4252" footer="4252" gutter="0" left="8504" right="8504" top="5668" bottom="4252"/>' +
+  "</hp:pagePr>" +
+  "</hp:secPr>" +
+  '<hp:ctrl><hp:colPr id="" type="NEWSPAPER" layout="LEFT" colCount="1" sameSz="1" sameGap="0"/></hp:ctrl>';
+
+type HwpxParagraph = { paraPr: ParaPrKey; runs: Run[] };
+
+const blockToParagraphs = (block: PlanBlock): HwpxParagraph[] => {
+  switch (block.type) {
+    case "subheading":
+      return [{ paraPr: "heading2", runs: [{ text: block.text, charPr: "heading2" }] }];
+    case "label":
+      return [{ paraPr: "normal", runs: [{ text: block.text, charPr: "bold" }] }];
+    case "field":
+      return [
+        {
+          paraPr: block.indent ? "indent" : "normal",
+          runs: [
+            { text: `${block.label}: `, charPr: "bold" },
+            { text: block.value, charPr: "normal" },
+          ],
+        },
+      ];
+    case "list":
+      return block.items.map((item, i) => ({
+        paraPr: "indent",
+        runs: [{ text: `${block.ordered ? `${i + 1}.` : "•"} ${item}`, charPr: "normal" }],
+      }));
+    case "table":
+      // 표는 "머리글: 값 | ..." 줄로 출력
+      return block.rows.map((row) => ({
+        paraPr: "indent",
+        runs: [
+          {
+            text: `• ${row.map((cell, i) => `${block.columns[i]}: ${cell}`).join(" | ")}`,
+            charPr: "normal",
+          },
+        ],
+      }));
+  }
+};
+
+// 본문 (제목 → 섹션 제목 → 섹션 블록)
+const buildSectionXml = (outline: PlanOutline) => {
+  const paragraphs: HwpxParagraph[] = [
+    { paraPr: "center", runs: [{ text: outline.title, charPr: "title" }] },
+  ];
+
+  outline.sections.forEach((section, i) => {
+    paragraphs.push({
+      paraPr: "heading1",
+      runs: [{ text: `${i + 1}. ${section.title}`, charPr: "heading1" }],
+    });
+    paragraphs.push(...section.blocks.flatMap(blockToParagraphs));
+  });
+
+  const body = paragraphs
+    .map((paragraph, i) => {
+      const runs = paragraph.runs
+        .map(
+          (run) =>
+            `<hp:run charPrIDRef="${CHAR_PR[run.charPr].id}"><hp:t>${escapeXml(run.text)
+              .split(/\r?\n/)
+              .join("<hp:lineBreak/>")}</hp:t></hp:run>`
+        )
+        .join("");
+      const sectionRun =
+        i === 0 ? `<hp:run charPrIDRef="0">${SECTION_PROPERTIES}</hp:run>` : "";
+
+      return (
+        `<hp:p id="${i}" paraPrIDRef="${PARA_PR[paragraph.paraPr].id}" styleIDRef="0" pageBreak="0" columnBreak="0" merged="0">` +
+        sectionRun +
+        runs +
+        "</hp:p>"
+      );
+    })
+    .join("");
+
+  return (
+    XML_DECLARATION +
+    `<hs:sec xmlns:hs="${NS.hs}" xmlns:hp="${NS.hp}" xmlns:hc="${NS.hc}">${body}</hs:sec>`
+  );
+};
+
+// 미리보기 텍스트 (한글 프로그램의 파일 미리보기용)
+const buildPreviewText = (outline: PlanOutline) =>
+  [
+    outline.title,
+    ...outline.sections.map((section, i) => `${i + 1}. ${section.title}`),
+  ].join("\r\n");
+
+const buildContentHpf = (outline: PlanOutline) =>
+  XML_DECLARATION +
+  `<opf:package xmlns:opf="http://www.idpf.org/2007/opf/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:ha="${NS.ha}" xmlns:hh="${NS.hh}" xmlns:hp="${NS.hp}" xmlns:hs="${NS.hs}" xmlns:hc="${NS.hc}" version="" unique-identifier="" id="">` +
+  "<opf:metadata>" +
+  `<opf:title>${escapeXml(outline.title)}</opf:title>` +
+  "<opf:language>ko</opf:language>" +
+  `<opf:meta name="CreatedDate" content="text">${new Date().toISOString()}</opf:meta>` +
+  "</opf:metadata>" +
+  "<opf:manifest>" +
+  '<opf:item id="header" href="Contents/header.xml" media-type="application/xml"/>' +
+  '<opf:item id="section0" href="Contents/section0.xml" media-type="application/xml"/>' +
+  '<opf:item id="settings" href="settings.xml" media-type="application/xml"/>' +
+  "</opf:manifest>" +
+  "<opf:spine>" +
+  '<opf:itemref idref="header" linear="yes"/>' +
+  '<opf:itemref idref="section0" linear="yes"/>' +
+  "</opf:spine>" +
+  "</opf:package>";
+
+// HWPX (한글) 내보내기
+export class HwpxExporter implements PlanExporter {
+  format = "hwpx";
+  contentType = "application/hwp+zip";
+  extension = "hwpx";
+
+  async render(outline: PlanOutline) {
+    const zip = new JSZip();
+    const file = (name: string, content: string) =>
+      zip.file(name, content, { createFolders: false });
+
+    // mimetype 은 압축하지 않고 맨 앞에 위치해야 함
+    zip.file("mimetype", "application/hwp+zip", { compression: "STORE" });
+    file(
+      "version.xml",
+      XML_DECLARATION +
+        `<hv:HCFVersion xmlns:hv="${NS.hv}" tagetApplication="WORDPROCESSOR" major="5" minor="1" micro="0" buildNumber="1" os="1" xmlVersion="1.4" application="Hancom Office Hangul" appVersion="11, 0, 0, 0"/>`
+    );
+    file(
+      "settings.xml",
+      XML_DECLARATION +
+        `<ha:HWPApplicationSetting xmlns:ha="${NS.ha}" xmlns:config="urn:oasis:names:tc:opendocument:xmlns:config:1.0"><ha:CaretPosition listIDRef="0" paraIDRef="0" pos="0"/></ha:HWPApplicationSetting>`
+    );
+    file(
+      "META-INF/container.xml",
+      XML_DECLARATION +
+        '<ocf:container xmlns:ocf="urn:oasis:names:tc:opendocument:xmlns:container" xmlns:hpf="http://www.hancom.co.kr/schema/2011/hpf">' +
+        "<ocf:rootfiles>" +
+        '<ocf:rootfile full-path="Contents/content.hpf" media-type="application/hwpml-package+xml"/>' +
+        '<ocf:rootfile full-path="Preview/PrvText.txt" media-type="text/plain"/>' +
+        "</ocf:rootfiles>" +
+        "</ocf:container>"
+    );
+    file(
+      "META-INF/manifest.xml",
+      XML_DECLARATION +
+        '<odf:manifest xmlns:odf="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0"/>'
+    );
+    file("Contents/content.hpf", buildContentHpf(outline));
+    file("Contents/header.xml", buildHeaderXml());
+    file("Contents/section0.xml", buildSectionXml(outline));
+    file("Preview/PrvText.txt", buildPreviewText(outline));
+
+    return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  }
+}
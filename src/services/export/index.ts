@@ -0,0 +1,37 @@
+import { BadRequestError } from "../../middlewares/error.middleware";
+import { DocxExporter } from "./docx.exporter";
+import { HwpxExporter } from "./hwpx.exporter";
+import { MarkdownExporter } from "./markdown.exporter";
+import { PdfExporter } from "./pdf.exporter";
+import { TextExporter } from "./text.exporter";
+import { PlanExporter } from "./types";
+
+export * from "./types";
+export { buildPlanOutline } from "./outline";
+
+const exporters: Record<string, PlanExporter> = {
+  docx: new DocxExporter(),
+  pdf: new PdfExporter(),
+  hwpx: new HwpxExporter(),
+  md: new MarkdownExporter(),
+  txt: new TextExporter(),
+};
+
+// 지원하는 내보내기 형식
+export const EXPORT_FORMATS = Object.keys(exporters);
+
+// format 쿼리에 맞는 내보내기 렌더러 (지원하지 않는 형식이면 400)
+export const getPlanExporter = (format: unknown): PlanExporter => {
+  const key = typeof format === "string" ? format.toLowerCase() : "";
+  const exporter = Object.prototype.hasOwnProperty.call(exporters, key)
+    ? exporters[key]
+    : undefined;
+
+  if (!exporter) {
+    throw new BadRequestError(
+      `지원하지 않는 형식입니다. (${EXPORT_FORMATS.join(", ")} 중 선택)`
+    );
+  }
+
+  return exporter;
+};
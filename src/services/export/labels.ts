@@ -0,0 +1,74 @@
+// 자주 쓰는 영문 키 → 한글 라벨
+const KEY_LABELS: Record<string, string> = {
+  name: "이름",
+  title: "제목",
+  description: "설명",
+  content: "내용",
+  role: "역할",
+  position: "직위",
+  career: "경력",
+  education: "학력",
+  skills: "보유 역량",
+  company: "기업명",
+  companyName: "기업명",
+  competitor: "경쟁사",
+  competitors: "경쟁사",
+  competitorAnalysis: "경쟁사 분석",
+  marketShare: "시장 점유율",
+  product: "제품",
+  feature: "주요 기능",
+  features: "주요 기능",
+  price: "가격",
+  strength: "강점",
+  strengths: "강점",
+  weakness: "약점",
+  weaknesses: "약점",
+  differentiation: "차별점",
+  marketSize: "시장 규모",
+  target: "목표",
+  targetMarket: "목표 시장",
+  customer: "고객",
+  item: "항목",
+  category: "구분",
+  amount: "금액",
+  budget: "예산",
+  cost: "비용",
+  quantity: "수량",
+  unit: "단위",
+  total: "합계",
+  basis: "산출 근거",
+  period: "기간",
+  startDate: "시작일",
+  endDate: "종료일",
+  date: "일자",
+  schedule: "일정",
+  milestone: "추진 목표",
+  milestones: "추진 일정",
+  task: "추진 내용",
+  tasks: "추진 내용",
+  status: "상태",
+  note: "비고",
+  notes: "비고",
+  remarks: "비고",
+};
+
+// JSON 키 → 문서 라벨 (한글 키는 그대로, 영문 camelCase/snake_case 는 단어로 분리)
+export const formatLabel = (key: string) => {
+  if (Object.prototype.hasOwnProperty.call(KEY_LABELS, key)) {
+    return KEY_LABELS[key]!;
+  }
+  if (!/^[A-Za-z0-9_\-\s]+$/.test(key)) {
+    return key;
+  }
+
+  const words = key
+    .replace(/[_-]+/g, " ")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .trim()
+    .split(/\s+/);
+
+  return words
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+};
@@ -0,0 +1,55 @@
+import { PlanBlock, PlanExporter, PlanOutline } from "./types";
+
+// 마크다운 특수문자가 서식으로 해석되지 않도록 이스케이프
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#|<>])/g, "\\$1");
+
+// 값 안의 줄바꿈은 강제 줄바꿈(줄 끝 공백 2개)으로 유지
+const escapeText = (text: string) => escapeMarkdown(text).replace(/\r?\n/g, "  \n");
+
+// 표 칸 (줄바꿈은 <br>)
+const escapeCell = (text: string) => escapeMarkdown(text).replace(/\r?\n/g, "<br>");
+
+const renderBlock = (block: PlanBlock): string => {
+  switch (block.type) {
+    case "subheading":
+      return `### ${escapeMarkdown(block.text)}`;
+    case "label":
+      return `**${escapeMarkdown(block.text)}**`;
+    case "field": {
+      const line = `**${escapeMarkdown(block.label)}**: ${escapeText(block.value)}`;
+      return block.indent ? `- ${line}` : line;
+    }
+    case "list":
+      return block.items
+        .map((item, i) => `${block.ordered ? `${i + 1}.` : "-"} ${escapeText(item)}`)
+        .join("\n");
+    case "table":
+      return [
+        `| ${block.columns.map(escapeCell).join(" | ")} |`,
+        `| ${block.columns.map(() => "---").join(" | ")} |`,
+        ...block.rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+      ].join("\n");
+  }
+};
+
+// 마크다운 내보내기 (웹 신청서 입력란에 붙여넣기용)
+export class MarkdownExporter implements PlanExporter {
+  format = "md";
+  contentType = "text/markdown; charset=utf-8";
+  extension = "md";
+
+  async render(outline: PlanOutline) {
+    const lines = [`# ${escapeMarkdown(outline.title)}`];
+
+    if (outline.grantTitle) {
+      lines.push(`> ${escapeMarkdown(outline.grantTitle)}`);
+    }
+
+    outline.sections.forEach((section, i) => {
+      lines.push(`## ${i + 1}. ${escapeMarkdown(section.title)}`);
+      lines.push(...section.blocks.map(renderBlock));
+    });
+
+    return Buffer.from(`${lines.join("\n\n")}\n`, "utf8");
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  BusinessPlanData,
+  BusinessPlanTemplateSection,
+  BusinessPlanValue,
+} from "../../types";
+import { getDataSectionOrder } from "../../utils/businessPlanSections";
+import { formatLabel } from "./labels";
+import { PlanBlock, PlanOutline } from "./types";
+
+// JSON 키 → 문서 라벨
+type Labeler = (key: string) => string;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// 단일 값 → 문자열 (null 은 출력하지 않음)
+const toText = (value: unknown): string | null =>
+  value === null || value === undefined || isRecord(value) || Array.isArray(value)
+    ? null
+    : String(value);
+
+// 항목 묶음 안의 "항목: 값" 목록
+const recordFields = (record: Record<string, unknown>, label: Labeler, indent?: number) =>
+  Object.entries(record).flatMap(([key, value]): PlanBlock[] => {
+    const text = toText(value);
+    return text === null ? [] : [{ type: "field", label: label(key), value: text, indent }];
+  });
+
+// 섹션 data (일반현황 등 "항목: 값" 형태)
+const sectionDataBlocks = (data: Record<string, BusinessPlanValue>, label: Labeler) =>
+  Object.entries(data).flatMap(([key, value]): PlanBlock[] => {
+    const text = toText(value);
+    if (text !== null) return [{ type: "field", label: label(key), value: text }];
+
+    if (isRecord(value)) {
+      return [{ type: "label", text: `${label(key)}:` }, ...recordFields(value, label, 1)];
+    }
+
+    return [];
+  });
+
+// 객체 배열 → 표 (열: 등장 순서대로 모은 키)
+const toTable = (records: Record<string, unknown>[], label: Labeler): PlanBlock => {
+  const keys = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  return {
+    type: "table",
+    columns: keys.map(label),
+    rows: records.map((record) => keys.map((key) => toText(record[key]) ?? "")),
+  };
+};
+
+// 순서가 있는 항목으로 보는 키 (단계, 일정 등은 번호 목록, 그 외는 글머리표)
+const ORDERED_LIST_KEY_PATTERN =
+  /step|stage|phase|milestone|roadmap|schedule|procedure|단계|절차|일정|순서|로드맵|추진\s*계획/i;
+
+// 배열 → 연속된 객체는 표, 단일 값은 목록으로 묶음
+const arrayBlocks = (items: unknown[], label: Labeler, ordered: boolean) => {
+  const blocks: PlanBlock[] = [];
+  let records: Record<string, unknown>[] = [];
+  let texts: string[] = [];
+
+  const flush = () => {
+    if (records.length > 0) blocks.push(toTable(records, label));
+    if (texts.length > 0) blocks.push({ type: "list", items: texts, ordered });
+    records = [];
+    texts = [];
+  };
+
+  for (const item of items) {
+    if (isRecord(item)) {
+      if (texts.length > 0) flush();
+      records.push(item);
+      continue;
+    }
+
+    const text = toText(item);
+    if (text === null) continue;
+    if (records.length > 0) flush();
+    texts.push(text);
+  }
+  flush();
+
+  return blocks;
+};
+
+// 하위 섹션 content (배열은 표/목록, 문자열은 "항목: 값", 객체는 묶음)
+const subSectionContentBlocks = (
+  content: Record<string, BusinessPlanValue>,
+  label: Labeler
+) =>
+  Object.entries(content).flatMap(([key, value]): PlanBlock[] => {
+    if (Array.isArray(value)) {
+      const blocks = arrayBlocks(value, label, ORDERED_LIST_KEY_PATTERN.test(key));
+      return blocks.length > 0
+        ? [{ type: "label", text: `[${label(key)}]` }, ...blocks]
+        : [];
+    }
+
+    const text = toText(value);
+    if (text !== null) return [{ type: "field", label: label(key), value: text }];
+
+    if (isRecord(value)) {
+      return [{ type: "label", text: `[${label(key)}]` }, ...recordFields(value, label)];
+    }
+
+    return [];
+  });
+
+// 사업계획서 data → 내보내기 문서 구조
+// 지원사업 양식이 있으면 양식의 섹션 순서/제목/항목 라벨, 없으면 data 섹션 순서(sectionOrder)
+// 양식에 없는 섹션(직접 추가한 섹션 등)은 양식 섹션 뒤에 출력
+export const buildPlanOutline = (plan: {
+  title: string;
+  data: BusinessPlanData;
+  grantTitle?: string | null;
+  template?: BusinessPlanTemplateSection[] | null;
+}): PlanOutline => {
+  type OrderEntry = { key: string; title?: string; labels?: Map<string, string> };
+  const templateOrder: OrderEntry[] = (plan.template ?? []).map((section) => ({
+    key: section.key,
+    title: section.title,
+    labels: new Map(
+      (section.fields ?? []).flatMap((field) =>
+        field.label ? [[field.key, field.label] as const] : []
+      )
+    ),
+  }));
+  const order: OrderEntry[] = [
+    ...templateOrder,
+    ...getDataSectionOrder(plan.data)
+      .filter((key) => !templateOrder.some((section) => section.key === key))
+      .map((key) => ({ key })),
+  ];
+
+  const sections = order.flatMap(({ key, title, labels }) => {
+    if (!Object.prototype.hasOwnProperty.call(plan.data.sections, key)) return [];
+    const section = plan.data.sections[key]!;
+    const label: Labeler = (field) => labels?.get(field) ?? formatLabel(field);
+
+    const blocks: PlanBlock[] = [];
+
+    if (section.data) {
+      blocks.push(...sectionDataBlocks(section.data, label));
+    }
+
+    for (const subSection of section.subSections ?? []) {
+      if (subSection.subTitle) {
+        blocks.push({ type: "subheading", text: subSection.subTitle });
+      }
+      if (subSection.content) {
+        blocks.push(...subSectionContentBlocks(subSection.content, label));
+      }
+    }
+
+    return [{ key, title: title || section.title || key, blocks }];
+  });
+
+  return {
+    title: plan.data.documentTitle || plan.title,
+    planTitle: plan.title,
+    grantTitle: plan.grantTitle ?? null,
+    sections,
+  };
+};
@@ -0,0 +1,233 @@
+import fs from "fs";
+import path from "path";
+import PDFDocument from "pdfkit";
+import { PlanBlock, PlanExporter, PlanOutline } from "./types";
+
+// 한글 글꼴 (기본: 저장소에 포함된 Gothic A1, 환경변수로 교체 가능)
+const FONT_DIR = path.resolve(__dirname, "../../../assets/fonts");
+const FONT_PATHS = {
+  regular:
+    process.env.PDF_FONT_PATH || path.join(FONT_DIR, "GothicA1-Regular.ttf"),
+  bold:
+    process.env.PDF_BOLD_FONT_PATH || path.join(FONT_DIR, "GothicA1-Bold.ttf"),
+};
+
+const MARGIN = 60;
+const TOC_ENTRIES_PER_PAGE = 28;
+
+let fontCache: { regular: Buffer; bold: Buffer } | undefined;
+
+const loadFonts = () => {
+  if (!fontCache) {
+    fontCache = {
+      regular: fs.readFileSync(FONT_PATHS.regular),
+      bold: fs.readFileSync(FONT_PATHS.bold),
+    };
+  }
+  return fontCache;
+};
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}. ${date.getMonth() + 1}. ${date.getDate()}.`;
+
+// 표지
+const renderTitlePage = (doc: PDFKit.PDFDocument, outline: PlanOutline) => {
+  const width = doc.page.width - MARGIN * 2;
+
+  doc.font("bold").fontSize(26);
+  doc.text(outline.title, MARGIN, doc.page.height * 0.35, { width, align: "center" });
+
+  doc.moveDown(1.5).font("regular").fontSize(14);
+  if (outline.planTitle !== outline.title) {
+    doc.text(outline.planTitle, { width, align: "center" });
+  }
+  if (outline.grantTitle) {
+    doc.text(outline.grantTitle, { width, align: "center" });
+  }
+
+  doc.fontSize(12).text(formatDate(new Date()), MARGIN, doc.page.height * 0.8, {
+    width,
+    align: "center",
+  });
+};
+
+// 남은 공간이 부족하면 다음 페이지로
+const ensureSpace = (doc: PDFKit.PDFDocument, height: number) => {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+};
+
+// 표 (머리글 행은 굵게, 음영)
+const renderTable = (doc: PDFKit.PDFDocument, columns: string[], rows: string[][]) => {
+  ensureSpace(doc, 60);
+  doc.font("regular").fontSize(9.5);
+  doc.table({
+    position: { x: doc.page.margins.left },
+    maxWidth: doc.page.width - doc.page.margins.left - doc.page.margins.right,
+    rowStyles: (row) => (row === 0 ? { backgroundColor: "#e7e6e6" } : undefined),
+    defaultStyle: { border: 0.5, borderColor: "#808080", padding: [4, 5] },
+    data: [
+      columns.map((text) => ({ text, type: "TH" as const, font: { src: "bold" } })),
+      ...rows,
+    ],
+  });
+  doc.moveDown(0.6);
+};
+
+const renderBlock = (doc: PDFKit.PDFDocument, block: PlanBlock) => {
+  const left = doc.page.margins.left;
+
+  switch (block.type) {
+    case "subheading":
+      ensureSpace(doc, 60);
+      doc.moveDown(0.6).font("bold").fontSize(13).text(block.text, left);
+      doc.moveDown(0.3);
+      break;
+    case "label":
+      doc.moveDown(0.3).font("bold").fontSize(10.5).text(block.text, left);
+      break;
+    case "field":
+      doc
+        .font("bold")
+        .fontSize(10.5)
+        .text(`${block.label}: `, left + (block.indent ? 12 : 0), doc.y, {
+          continued: true,
+        })
+        .font("regular")
+        .text(block.value);
+      doc.moveDown(0.2);
+      break;
+    case "list":
+      block.items.forEach((item, i) => {
+        doc
+          .font("regular")
+          .fontSize(10.5)
+          .text(`${block.ordered ? `${i + 1}.` : "•"} ${item}`, left + 6);
+        doc.moveDown(0.2);
+      });
+      break;
+    case "table":
+      renderTable(doc, block.columns, block.rows);
+      break;
+  }
+};
+
+// 목차 (본문을 모두 그린 뒤 페이지 번호와 함께 채움)
+const renderTableOfContents = (
+  doc: PDFKit.PDFDocument,
+  firstPage: number,
+  entries: { title: string; page: number; destination: string }[]
+) => {
+  const width = doc.page.width - MARGIN * 2;
+
+  entries.forEach((entry, i) => {
+    if (i % TOC_ENTRIES_PER_PAGE === 0) {
+      doc.switchToPage(firstPage + i / TOC_ENTRIES_PER_PAGE);
+      doc.font("bold").fontSize(18).text("목차", MARGIN, MARGIN, { width });
+      doc.moveDown(1);
+    }
+
+    const y = doc.y;
+    doc.font("regular").fontSize(12);
+    doc.text(`${i + 1}. ${entry.title}`, MARGIN, y, {
+      width: width - 40,
+      goTo: entry.destination,
+    });
+    doc.text(String(entry.page), MARGIN, y, { width, align: "right" });
+    doc.moveDown(0.6);
+  });
+};
+
+// 쪽 번호 (표지 제외)
+const renderPageNumbers = (doc: PDFKit.PDFDocument) => {
+  const range = doc.bufferedPageRange();
+
+  for (let i = range.start + 1; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font("regular")
+      .fontSize(9)
+      .text(`- ${i + 1} -`, 0, doc.page.height - bottom / 2, {
+        width: doc.page.width,
+        align: "center",
+      });
+    doc.page.margins.bottom = bottom;
+  }
+};
+
+// PDF 내보내기 (표지, 목차, 쪽 번호 포함)
+export class PdfExporter implements PlanExporter {
+  format = "pdf";
+  contentType = "application/pdf";
+  extension = "pdf";
+
+  async render(outline: PlanOutline) {
+    const fonts = loadFonts();
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: MARGIN,
+      bufferPages: true,
+      info: { Title: outline.title },
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+    });
+
+    doc.registerFont("regular", fonts.regular);
+    doc.registerFont("bold", fonts.bold);
+
+    renderTitlePage(doc, outline);
+
+    // 목차 페이지 자리 확보
+    const tocFirstPage = 1;
+    const tocPageCount = Math.max(
+      1,
+      Math.ceil(outline.sections.length / TOC_ENTRIES_PER_PAGE)
+    );
+    for (let i = 0; i < tocPageCount; i++) {
+      doc.addPage();
+    }
+
+    // 본문
+    doc.addPage();
+    const tocEntries: { title: string; page: number; destination: string }[] = [];
+
+    outline.sections.forEach((section, i) => {
+      ensureSpace(doc, 120);
+
+      const range = doc.bufferedPageRange();
+      const destination = `section-${i + 1}`;
+      doc.addNamedDestination(destination);
+      doc.outline.addItem(section.title);
+      tocEntries.push({
+        title: section.title,
+        page: range.start + range.count,
+        destination,
+      });
+
+      doc
+        .font("bold")
+        .fontSize(16)
+        .text(`${i + 1}. ${section.title}`, doc.page.margins.left);
+      doc.moveDown(0.6);
+
+      for (const block of section.blocks) {
+        renderBlock(doc, block);
+      }
+      doc.moveDown(1.5);
+    });
+
+    renderTableOfContents(doc, tocFirstPage, tocEntries);
+    renderPageNumbers(doc);
+
+    doc.end();
+    return done;
+  }
+}
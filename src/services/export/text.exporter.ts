@@ -0,0 +1,43 @@
+import { PlanBlock, PlanExporter, PlanOutline } from "./types";
+
+const renderBlock = (block: PlanBlock): string[] => {
+  switch (block.type) {
+    case "subheading":
+      return ["", `[${block.text}]`];
+    case "label":
+      return [block.text];
+    case "field":
+      return [`${block.indent ? "  - " : ""}${block.label}: ${block.value}`];
+    case "list":
+      return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : "•"} ${item}`);
+    case "table":
+      // 표는 행마다 "머리글: 값" 묶음으로 출력
+      return block.rows.map(
+        (row) => `- ${row.map((cell, i) => `${block.columns[i]}: ${cell}`).join(", ")}`
+      );
+  }
+};
+
+// 일반 텍스트 내보내기 (서식 없이 웹 신청서 입력란에 붙여넣기용)
+export class TextExporter implements PlanExporter {
+  format = "txt";
+  contentType = "text/plain; charset=utf-8";
+  extension = "txt";
+
+  async render(outline: PlanOutline) {
+    const lines = [outline.title];
+
+    if (outline.grantTitle) {
+      lines.push(outline.grantTitle);
+    }
+
+    outline.sections.forEach((section, i) => {
+      lines.push("", "", `${i + 1}. ${section.title}`, "");
+      for (const block of section.blocks) {
+        lines.push(...renderBlock(block));
+      }
+    });
+
+    return Buffer.from(`${lines.join("\n")}\n`, "utf8");
+  }
+}
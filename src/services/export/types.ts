@@ -0,0 +1,35 @@
+// 내보내기 문서 블록 (섹션 본문을 구성하는 단위)
+export type PlanBlock =
+  // 하위 섹션 소제목
+  | { type: "subheading"; text: string }
+  // 항목 묶음 제목 (예: "[경쟁사 분석]")
+  | { type: "label"; text: string }
+  // "항목: 값" 한 줄 (indent 가 있으면 묶음 안의 항목)
+  | { type: "field"; label: string; value: string; indent?: number }
+  // 목록 (문자열 배열, ordered 면 번호 목록, 아니면 글머리표)
+  | { type: "list"; items: string[]; ordered: boolean }
+  // 표 (객체 배열, columns 는 머리글 행)
+  | { type: "table"; columns: string[]; rows: string[][] };
+
+// 내보내기 섹션
+export interface PlanOutlineSection {
+  key: string;
+  title: string;
+  blocks: PlanBlock[];
+}
+
+// 내보내기 문서 구조 (모든 형식이 같은 구조를 출력)
+export interface PlanOutline {
+  title: string;
+  planTitle: string;
+  grantTitle: string | null;
+  sections: PlanOutlineSection[];
+}
+
+// 내보내기 형식별 렌더러
+export interface PlanExporter {
+  format: string;
+  contentType: string;
+  extension: string;
+  render(outline: PlanOutline): Promise<Buffer>;
+}
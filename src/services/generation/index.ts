@@ -0,0 +1,49 @@
+import { BusinessPlanTemplateSection } from "../../types";
+import { AppError } from "../../middlewares/error.middleware";
+import { BUSINESS_PLAN_SECTION_KEYS } from "../../utils/businessPlanSections";
+import { MockGenerationProvider } from "./mock.provider";
+import { OpenAIGenerationProvider } from "./openai.provider";
+import { GenerationProvider } from "./types";
+
+export * from "./types";
+
+// 지원사업 양식이 없을 때 생성할 기본 섹션
+const DEFAULT_SECTION_TITLES: Record<(typeof BUSINESS_PLAN_SECTION_KEYS)[number], string> = {
+  generalStatus: "일반현황",
+  summary: "개요(요약)",
+  problem: "문제 인식",
+  solution: "실현 가능성",
+  scaleup: "성장 전략",
+  team: "팀 구성",
+};
+
+export const DEFAULT_GENERATION_SECTIONS: BusinessPlanTemplateSection[] =
+  BUSINESS_PLAN_SECTION_KEYS.map((key) => ({ key, title: DEFAULT_SECTION_TITLES[key] }));
+
+let provider: GenerationProvider | undefined;
+
+// GENERATION_PROVIDER 환경변수에 따라 모델 선택 (openai | mock)
+// 운영 환경에서는 명시적으로 설정해야 함 (실수로 mock 결과에 이용권이 차감되지 않도록)
+export const getGenerationProvider = (): GenerationProvider => {
+  if (provider) return provider;
+
+  const name =
+    process.env.GENERATION_PROVIDER ||
+    (process.env.NODE_ENV !== "production" ? "mock" : undefined);
+
+  switch (name) {
+    case "openai":
+      provider = new OpenAIGenerationProvider();
+      break;
+    case "mock":
+      provider = new MockGenerationProvider(
+        parseInt(process.env.GENERATION_MOCK_DELAY_MS || "0", 10)
+      );
+      break;
+    default:
+      console.error(`Unknown or missing GENERATION_PROVIDER: ${name ?? "(unset)"}`);
+      throw new AppError("AI 생성 기능을 사용할 수 없습니다. 관리자에게 문의해주세요.", 503);
+  }
+
+  return provider;
+};
@@ -0,0 +1,149 @@
+import {
+  BusinessPlanDataSection,
+  BusinessPlanTemplateField,
+  BusinessPlanTemplateSection,
+  BusinessPlanValue,
+} from "../../types";
+import {
+  GenerationHooks,
+  GenerationInput,
+  GenerationProvider,
+  RewriteRequest,
+} from "./types";
+
+const truncate = (text: string, maxLength?: number) =>
+  maxLength && text.length > maxLength ? text.slice(0, maxLength) : text;
+
+// 부분 텍스트 알림 단위 (글자 수)
+const TEXT_CHUNK_SIZE = 20;
+
+// 섹션 안의 문자열 값 (부분 텍스트 알림용)
+const collectTexts = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectTexts);
+  if (value && typeof value === "object") return Object.values(value).flatMap(collectTexts);
+  return [];
+};
+
+// 개발/테스트용 모델: 입력만으로 항상 같은 결과를 만듦 (외부 호출 없음)
+// GENERATION_MOCK_DELAY_MS 로 섹션마다 지연을 줄 수 있음
+export class MockGenerationProvider implements GenerationProvider {
+  name = "mock";
+
+  constructor(private delayMs: number = 0) {}
+
+  private async wait() {
+    if (this.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+    }
+  }
+
+  async generateSection(
+    input: GenerationInput,
+    section: BusinessPlanTemplateSection,
+    hooks: GenerationHooks = {}
+  ): Promise<BusinessPlanDataSection> {
+    await this.wait();
+
+    const result = this.buildSection(input, section);
+
+    // 실제 모델처럼 글자를 조금씩 나눠서 알림
+    if (hooks.onText) {
+      for (const text of collectTexts(result)) {
+        for (let i = 0; i < text.length; i += TEXT_CHUNK_SIZE) {
+          hooks.onText(text.slice(i, i + TEXT_CHUNK_SIZE));
+        }
+        hooks.onText("\n");
+      }
+    }
+
+    return result;
+  }
+
+  private buildSection(
+    input: GenerationInput,
+    section: BusinessPlanTemplateSection
+  ): BusinessPlanDataSection {
+    // 일반현황은 기업 정보를 그대로 사용
+    if (section.key === "generalStatus" && input.companyProfile) {
+      return { title: section.title, data: { ...input.companyProfile } };
+    }
+
+    // 섹션 글자 수 제한은 항목/하위 섹션에 나눠서 적용
+    const fields = section.fields ?? [];
+    const subSections = section.subSections ?? [];
+    const pieces = Math.max(fields.length, 1) + subSections.length;
+    const budget = section.maxLength ? Math.floor(section.maxLength / pieces) : undefined;
+    const describe = (label: string) => truncate(this.describe(input, section, label), budget);
+
+    const data =
+      fields.length > 0
+        ? Object.fromEntries(
+            fields.map((field: BusinessPlanTemplateField) => [
+              field.key,
+              truncate(describe(field.label ?? field.key), field.maxLength),
+            ])
+          )
+        : { content: describe(section.title) };
+
+    return {
+      title: section.title,
+      data,
+      subSections: subSections.map((subTitle) => ({
+        subTitle,
+        content: { content: describe(subTitle) },
+      })),
+    };
+  }
+
+  // 문자열 값만 바꿈 (줄이기: 앞쪽 절반, 늘리기: 보완 문구 추가, 어조: 어조 표시)
+  async rewriteContent(
+    _input: GenerationInput,
+    section: BusinessPlanTemplateSection,
+    request: RewriteRequest
+  ): Promise<Record<string, BusinessPlanValue>> {
+    await this.wait();
+
+    const rewrite = (text: string) => {
+      switch (request.action) {
+        case "shorten":
+          return text.slice(0, Math.ceil(text.length / 2));
+        case "expand":
+          return `${text} (${section.title} 관련 근거와 세부 내용 보완)`;
+        case "tone":
+          return `[${request.tone ?? "기본"}] ${text}`;
+      }
+    };
+
+    const rewriteValue = (value: unknown): any => {
+      if (typeof value === "string") return rewrite(value);
+      if (Array.isArray(value)) return value.map(rewriteValue);
+      if (value && typeof value === "object") {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [key, rewriteValue(item)])
+        );
+      }
+      return value;
+    };
+
+    return rewriteValue(request.content);
+  }
+
+  private describe(
+    input: GenerationInput,
+    section: BusinessPlanTemplateSection,
+    label: string
+  ) {
+    const inputs = Object.entries(input.inputs)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join(", ");
+
+    return [
+      `[${section.title}] ${label}`,
+      `${input.title}${input.grant ? ` (${input.grant.title})` : ""}`,
+      inputs,
+    ]
+      .filter(Boolean)
+      .join(" - ");
+  }
+}
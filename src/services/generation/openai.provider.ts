@@ -0,0 +1,195 @@
+import {
+  BusinessPlanDataSection,
+  BusinessPlanTemplateSection,
+  BusinessPlanValue,
+} from "../../types";
+import {
+  GenerationHooks,
+  GenerationInput,
+  GenerationProvider,
+  RewriteRequest,
+} from "./types";
+
+const SYSTEM_PROMPT = [
+  "당신은 정부 지원사업 사업계획서 작성 전문가입니다.",
+  "주어진 지원사업 공고, 기업 정보, 사용자 입력을 바탕으로 요청한 섹션 하나만 한국어로 작성합니다.",
+  '반드시 {"data": {항목 키: 내용}, "subSections": [{"subTitle": 소제목, "content": {항목 키: 내용}}]} 형식의 JSON 객체만 응답합니다.',
+  "내용은 문자열, 숫자 또는 그 배열만 사용하고, 입력에 없는 수치나 사실은 지어내지 않습니다.",
+].join("\n");
+
+const REWRITE_SYSTEM_PROMPT = [
+  "당신은 정부 지원사업 사업계획서 편집 전문가입니다.",
+  "주어진 섹션 내용을 요청대로 고쳐 쓰되, 키 구조는 그대로 유지하고 입력에 없는 수치나 사실은 추가하지 않습니다.",
+  '반드시 {"content": {항목 키: 내용}} 형식의 JSON 객체만 응답합니다.',
+].join("\n");
+
+const REWRITE_INSTRUCTIONS: Record<RewriteRequest["action"], (tone?: string) => string> = {
+  shorten: () => "핵심만 남기고 분량을 절반 정도로 줄여주세요.",
+  expand: () => "근거와 세부 내용을 보완해 분량을 늘려주세요.",
+  tone: (tone) => `내용은 유지하고 어조를 "${tone ?? "격식체"}"(으)로 바꿔주세요.`,
+};
+
+// 섹션 하나를 요청하는 프롬프트
+const buildSectionPrompt = (input: GenerationInput, section: BusinessPlanTemplateSection) =>
+  JSON.stringify(
+    {
+      planTitle: input.title,
+      grant: input.grant,
+      companyProfile: input.companyProfile,
+      inputs: input.inputs,
+      section: {
+        key: section.key,
+        title: section.title,
+        maxLength: section.maxLength,
+        fields: section.fields,
+        subSections: section.subSections,
+      },
+    },
+    null,
+    2
+  );
+
+// OpenAI Chat Completions 호환 API (GENERATION_API_URL 로 호환 서버 지정 가능)
+export class OpenAIGenerationProvider implements GenerationProvider {
+  name = "openai";
+  private apiKey: string;
+  private apiUrl: string;
+  private model: string;
+
+  constructor() {
+    const apiKey = process.env.GENERATION_API_KEY;
+
+    if (!apiKey) {
+      throw new Error("GENERATION_API_KEY 환경변수가 설정되지 않았습니다.");
+    }
+
+    this.apiKey = apiKey;
+    this.apiUrl = process.env.GENERATION_API_URL || "https://api.openai.com/v1";
+    this.model = process.env.GENERATION_MODEL || "gpt-4o-mini";
+  }
+
+  // JSON 응답 요청 (onText 가 있으면 스트리밍으로 받으며 부분 텍스트 전달)
+  private async complete(
+    systemPrompt: string,
+    userPrompt: string,
+    hooks: GenerationHooks = {}
+  ): Promise<any> {
+    const stream = Boolean(hooks.onText);
+    const response = await fetch(`${this.apiUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        response_format: { type: "json_object" },
+        stream,
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt },
+        ],
+      }),
+      signal: AbortSignal.timeout(120 * 1000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`생성 API 오류 (${response.status})`);
+    }
+
+    const text = stream
+      ? await this.readStream(response, hooks.onText!)
+      : (
+          (await response.json()) as {
+            choices?: { message?: { content?: string } }[];
+          }
+        ).choices?.[0]?.message?.content;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text ?? "");
+    } catch {
+      throw new Error("생성 API 응답을 해석할 수 없습니다.");
+    }
+
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("생성 API 응답 형식이 올바르지 않습니다.");
+    }
+
+    return parsed;
+  }
+
+  // 스트리밍 응답 (data: {...} 줄 단위) 을 읽어 전체 텍스트 반환
+  private async readStream(response: Response, onText: (delta: string) => void) {
+    if (!response.body) {
+      throw new Error("생성 API 응답 형식이 올바르지 않습니다.");
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !payload || payload === "[DONE]") continue;
+
+        const delta: string | undefined = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+    }
+
+    return text;
+  }
+
+  async generateSection(
+    input: GenerationInput,
+    section: BusinessPlanTemplateSection,
+    hooks: GenerationHooks = {}
+  ): Promise<BusinessPlanDataSection> {
+    const parsed = await this.complete(
+      SYSTEM_PROMPT,
+      buildSectionPrompt(input, section),
+      hooks
+    );
+
+    return {
+      title: section.title,
+      data: parsed.data ?? {},
+      ...(Array.isArray(parsed.subSections) && { subSections: parsed.subSections }),
+    };
+  }
+
+  async rewriteContent(
+    input: GenerationInput,
+    section: BusinessPlanTemplateSection,
+    request: RewriteRequest
+  ): Promise<Record<string, BusinessPlanValue>> {
+    const parsed = await this.complete(
+      REWRITE_SYSTEM_PROMPT,
+      JSON.stringify(
+        {
+          instruction: REWRITE_INSTRUCTIONS[request.action](request.tone),
+          planTitle: input.title,
+          section: { key: section.key, title: section.title, maxLength: section.maxLength },
+          content: request.content,
+        },
+        null,
+        2
+      )
+    );
+
+    if (!parsed.content || typeof parsed.content !== "object" || Array.isArray(parsed.content)) {
+      throw new Error("생성 API 응답 형식이 올바르지 않습니다.");
+    }
+
+    return parsed.content;
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  BusinessPlanDataSection,
+  BusinessPlanTemplateSection,
+  BusinessPlanValue,
+} from "../../types";
+
+// 생성 요청 시점의 지원사업/기업 정보 스냅샷과 사용자 입력
+export interface GenerationInput {
+  title: string;
+  grant: {
+    id: string;
+    title: string;
+    organization: string;
+    category: string | null;
+    description: string | null;
+    eligibility: string | null;
+    amount: string | null;
+  } | null;
+  // 기업 정보 (일반현황 형식, 라벨 → 값)
+  companyProfile: Record<string, string> | null;
+  // 사용자가 입력한 아이템 설명 등 (키 → 내용)
+  inputs: Record<string, string>;
+  // 생성할 섹션 (지원사업 양식 또는 기본 섹션, 배열 순서대로 생성)
+  sections: BusinessPlanTemplateSection[];
+}
+
+// 섹션 편집 종류 (regenerate 는 generateSection, 나머지는 rewriteContent 사용)
+export type SectionEditAction = "regenerate" | "shorten" | "expand" | "tone";
+
+// 기존 내용 다듬기 요청 (섹션 data 또는 하위 섹션 content)
+export interface RewriteRequest {
+  action: Exclude<SectionEditAction, "regenerate">;
+  // action 이 tone 일 때 바꿀 어조 (예: "격식체", "간결하게")
+  tone?: string;
+  content: Record<string, BusinessPlanValue>;
+}
+
+// 생성 중 알림 (SSE 진행 상황 표시용)
+export interface GenerationHooks {
+  // 모델이 만든 부분 텍스트 (도착하는 대로)
+  onText?: (delta: string) => void;
+}
+
+// 사업계획서 생성 모델 (OpenAI 호환 API, 개발용 mock 등)
+export interface GenerationProvider {
+  name: string;
+  // 섹션 하나 생성 (data.sections[section.key] 에 저장할 값)
+  generateSection(
+    input: GenerationInput,
+    section: BusinessPlanTemplateSection,
+    hooks?: GenerationHooks
+  ): Promise<BusinessPlanDataSection>;
+  // 기존 내용을 줄이기/늘리기/어조 바꾸기 (같은 키 구조로 반환)
+  rewriteContent(
+    input: GenerationInput,
+    section: BusinessPlanTemplateSection,
+    request: RewriteRequest
+  ): Promise<Record<string, BusinessPlanValue>>;
+}
@@ -0,0 +1,189 @@
+import JSZip from "jszip";
+import { BadRequestError } from "../../middlewares/error.middleware";
+
+// DOCX 본문 문단 (표는 행마다 "칸 | 칸" 한 문단)
+export interface DocxParagraph {
+  text: string;
+  // 제목 수준 (1 = 제목 1), 일반 문단은 null
+  headingLevel: number | null;
+  // 문서 제목(Title 스타일) 여부
+  isTitle: boolean;
+}
+
+// 압축 해제한 XML 파트 최대 크기 (압축 폭탄 방지)
+const MAX_PART_SIZE = 20 * 1024 * 1024;
+
+// 유니코드 범위를 벗어난 문자 참조는 대체 문자로
+const REPLACEMENT_CHARACTER = "\uFFFD";
+
+interface DocxStyle {
+  name: string;
+  outlineLevel: number | null;
+}
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default: {
+        const codePoint =
+          entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : REPLACEMENT_CHARACTER;
+      }
+    }
+  });
+
+const partTooLarge = () =>
+  new BadRequestError("DOCX 파일의 본문이 너무 큽니다. (압축 해제 후 20MB 이하)");
+
+// ZIP 항목을 문자열로 읽기 (압축 해제 크기가 한도를 넘으면 400)
+// 헤더에 기록된 크기를 먼저 확인하고, 실제 해제 중에도 한도를 넘으면 중단
+const readPart = async (zip: JSZip, path: string): Promise<string | null> => {
+  const file = zip.file(path);
+  if (!file) return null;
+
+  const declaredSize = (file as unknown as { _data?: { uncompressedSize?: number } })._data
+    ?.uncompressedSize;
+  if (typeof declaredSize === "number" && declaredSize > MAX_PART_SIZE) {
+    throw partTooLarge();
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream("nodebuffer") as NodeJS.ReadableStream & {
+      destroy: () => void;
+    };
+
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_PART_SIZE) {
+        stream.destroy();
+        reject(partTooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", () => reject(new BadRequestError("DOCX 파일을 읽을 수 없습니다.")));
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+  });
+};
+
+const getAttribute = (xml: string, element: string) =>
+  xml.match(new RegExp(`<${element}\\b[^>]*?\\bw:val="([^"]*)"`))?.[1] ?? null;
+
+// styles.xml → 스타일 ID 별 이름/개요 수준
+const parseStyles = (xml: string | null) => {
+  const styles = new Map<string, DocxStyle>();
+  if (!xml) return styles;
+
+  for (const match of xml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const id = match[1]!.match(/\bw:styleId="([^"]*)"/)?.[1];
+    if (!id) continue;
+
+    const outlineLevel = getAttribute(match[2]!, "w:outlineLvl");
+    styles.set(id, {
+      name: (getAttribute(match[2]!, "w:name") ?? id).toLowerCase(),
+      outlineLevel: outlineLevel === null ? null : Number(outlineLevel),
+    });
+  }
+
+  return styles;
+};
+
+// 문단 안의 글자 (삭제된 변경 내용, 필드 코드는 제외)
+const paragraphText = (xml: string) => {
+  let text = "";
+  for (const match of xml.matchAll(
+    /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\b[^>]*\/>|<w:cr\/>/g
+  )) {
+    if (match[1] !== undefined) text += decodeXml(match[1]);
+    else text += match[0].startsWith("<w:tab") ? "\t" : "\n";
+  }
+  return text.trim();
+};
+
+// 문단 스타일 → 제목 수준 (heading 1~9 스타일, 스타일/문단의 개요 수준)
+const headingLevelOf = (xml: string, styles: Map<string, DocxStyle>) => {
+  const styleId = getAttribute(xml, "w:pStyle");
+  const style = styleId ? styles.get(styleId) : undefined;
+  const name = style?.name ?? styleId?.toLowerCase() ?? "";
+
+  if (name === "title") return { headingLevel: null, isTitle: true };
+  // 목차 항목은 본문으로 취급하지 않음
+  if (/^toc/.test(name)) return null;
+
+  const heading = name.match(/^heading\s*(\d)$/);
+  const outlineLevel = getAttribute(xml, "w:outlineLvl");
+  const level = heading
+    ? Number(heading[1])
+    : outlineLevel !== null
+      ? Number(outlineLevel) + 1
+      : style?.outlineLevel !== null && style?.outlineLevel !== undefined
+        ? style.outlineLevel + 1
+        : null;
+
+  // 개요 수준 10 은 "본문"
+  return { headingLevel: level !== null && level <= 9 ? level : null, isTitle: false };
+};
+
+// 표 → 행마다 "칸 | 칸" 문단
+const tableParagraphs = (xml: string): DocxParagraph[] =>
+  [...xml.matchAll(/<w:tr\b[^>]*>([\s\S]*?)<\/w:tr>/g)].flatMap((row) => {
+    const cells = [...row[1]!.matchAll(/<w:tc\b[^>]*>([\s\S]*?)<\/w:tc>/g)].map((cell) =>
+      [...cell[1]!.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g)]
+        .map((p) => paragraphText(p[1] ?? ""))
+        .filter(Boolean)
+        .join(" ")
+    );
+    const text = cells.join(" | ").trim();
+    return text.replace(/[|\s]/g, "")
+      ? [{ text, headingLevel: null, isTitle: false }]
+      : [];
+  });
+
+// DOCX 파일 → 본문 문단 목록 (문서 순서)
+export const parseDocxParagraphs = async (buffer: Buffer): Promise<DocxParagraph[]> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new BadRequestError("DOCX 파일을 읽을 수 없습니다.");
+  }
+
+  const documentXml = await readPart(zip, "word/document.xml");
+  if (!documentXml) {
+    throw new BadRequestError("DOCX 파일을 읽을 수 없습니다. (word/document.xml 없음)");
+  }
+
+  const styles = parseStyles(await readPart(zip, "word/styles.xml"));
+  const body = documentXml.match(/<w:body\b[^>]*>([\s\S]*)<\/w:body>/)?.[1] ?? "";
+  const paragraphs: DocxParagraph[] = [];
+
+  for (const match of body.matchAll(
+    /<w:tbl\b[^>]*>[\s\S]*?<\/w:tbl>|<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g
+  )) {
+    if (match[0].startsWith("<w:tbl")) {
+      paragraphs.push(...tableParagraphs(match[0]));
+      continue;
+    }
+
+    const xml = match[1] ?? "";
+    const text = paragraphText(xml);
+    const kind = headingLevelOf(xml, styles);
+    if (!text || !kind) continue;
+
+    paragraphs.push({ text, ...kind });
+  }
+
+  return paragraphs;
+};
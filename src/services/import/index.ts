@@ -0,0 +1,140 @@
+import { randomUUID } from "crypto";
+import { BusinessPlanSection, BusinessPlanTemplateSection } from "../../types";
+import { DocxParagraph, parseDocxParagraphs } from "./docx.parser";
+
+export type { DocxParagraph } from "./docx.parser";
+
+// 양식 섹션으로 옮기지 못한 부분 (첫 제목 앞의 문단, 양식에 없는 제목)
+export interface UnmappedPart {
+  heading: string | null;
+  paragraphs: number;
+  preview: string;
+}
+
+export interface DocxImportResult {
+  title: string | null;
+  sections: BusinessPlanSection[];
+  unmapped: UnmappedPart[];
+  // 양식에는 있지만 문서에서 찾지 못한 섹션
+  missingSections: { key: string; title: string }[];
+}
+
+const PREVIEW_LENGTH = 100;
+
+// 제목 비교용 정규화 (앞의 번호 "1.", "Ⅱ.", "가." 등과 공백/기호 제거)
+const normalizeHeading = (text: string) =>
+  text
+    .replace(/^\s*(?:(?:\d+|[IVXⅠ-Ⅻ]+|[가-하])\s*[.)]\s*)+/i, "")
+    .replace(/[\s\p{P}\p{S}]/gu, "")
+    .toLowerCase();
+
+// 제목 → 양식 섹션 (같거나 한쪽이 다른 쪽을 포함하면 일치)
+const matchTemplateSection = (
+  heading: string,
+  template: BusinessPlanTemplateSection[]
+) => {
+  const normalized = normalizeHeading(heading);
+  if (normalized.length < 2) return undefined;
+
+  const candidates = template.map((section) => ({
+    section,
+    normalized: normalizeHeading(section.title),
+  }));
+
+  return (
+    candidates.find((candidate) => candidate.normalized === normalized) ??
+    candidates.find(
+      (candidate) =>
+        candidate.normalized.length >= 2 &&
+        (normalized.includes(candidate.normalized) || candidate.normalized.includes(normalized))
+    )
+  )?.section;
+};
+
+const toUnmappedPart = (heading: string | null, paragraphs: DocxParagraph[]): UnmappedPart => {
+  const text = paragraphs.map((paragraph) => paragraph.text).join(" ");
+  return {
+    heading,
+    paragraphs: paragraphs.length,
+    preview: text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text,
+  };
+};
+
+// DOCX → 사업계획서 content 섹션
+// - 문서에서 가장 높은 수준의 제목마다 섹션 하나 (하위 제목은 본문에 포함)
+// - 양식이 있으면 제목이 일치하는 섹션은 양식의 key/제목을 id/제목으로 사용
+// - 첫 제목 앞의 문단(표지 등)은 가져오지 않고 미매핑으로 보고
+export const importDocxSections = async (
+  buffer: Buffer,
+  template: BusinessPlanTemplateSection[] | null
+): Promise<DocxImportResult> => {
+  const paragraphs = await parseDocxParagraphs(buffer);
+  const title = paragraphs.find((paragraph) => paragraph.isTitle)?.text ?? null;
+  const body = paragraphs.filter((paragraph) => !paragraph.isTitle);
+
+  const levels = body.flatMap((paragraph) =>
+    paragraph.headingLevel === null ? [] : [paragraph.headingLevel]
+  );
+  const sectionLevel = levels.length > 0 ? Math.min(...levels) : null;
+
+  // 최상위 제목 기준으로 묶음 (제목이 하나도 없으면 전체를 한 섹션으로)
+  const groups: { heading: string | null; paragraphs: DocxParagraph[] }[] =
+    sectionLevel === null && body.length > 0 ? [{ heading: "본문", paragraphs: [] }] : [];
+  for (const paragraph of body) {
+    if (paragraph.headingLevel !== null && paragraph.headingLevel === sectionLevel) {
+      groups.push({ heading: paragraph.text, paragraphs: [] });
+    } else if (groups.length === 0) {
+      groups.push({ heading: null, paragraphs: [paragraph] });
+    } else {
+      groups[groups.length - 1]!.paragraphs.push(paragraph);
+    }
+  }
+
+  const sections: BusinessPlanSection[] = [];
+  const unmapped: UnmappedPart[] = [];
+
+  for (const group of groups) {
+    if (group.heading === null) {
+      unmapped.push(toUnmappedPart(null, group.paragraphs));
+      continue;
+    }
+
+    const content = group.paragraphs.map((paragraph) => paragraph.text).join("\n");
+
+    if (!template) {
+      sections.push({ id: randomUUID(), title: group.heading, content });
+      continue;
+    }
+
+    // 양식에 없는 제목은 별도 섹션으로 남기고 미매핑으로 보고
+    const matched = matchTemplateSection(group.heading, template);
+    if (!matched) {
+      sections.push({ id: randomUUID(), title: group.heading, content });
+      unmapped.push(toUnmappedPart(group.heading, group.paragraphs));
+      continue;
+    }
+
+    // 같은 양식 섹션에 해당하는 제목이 여러 번 나오면 내용을 이어 붙임
+    const existing = sections.find((section) => section.id === matched.key);
+    if (existing) {
+      existing.content = [existing.content, group.heading, content].filter(Boolean).join("\n");
+    } else {
+      sections.push({ id: matched.key, title: matched.title, content });
+    }
+  }
+
+  // 양식 순서대로 정렬 (양식에 없는 섹션은 문서 순서대로 뒤에)
+  if (template) {
+    const rank = (id: string) => {
+      const index = template.findIndex((section) => section.key === id);
+      return index === -1 ? template.length : index;
+    };
+    sections.sort((a, b) => rank(a.id) - rank(b.id));
+  }
+
+  const missingSections = (template ?? [])
+    .filter((section) => !sections.some((imported) => imported.id === section.key))
+    .map((section) => ({ key: section.key, title: section.title }));
+
+  return { title, sections, unmapped, missingSections };
+};
@@ -0,0 +1,27 @@
+import { LogChannel } from "./log.channel";
+import { SmtpChannel } from "./smtp.channel";
+import { NotificationChannel } from "./types";
+
+export * from "./types";
+
+let channel: NotificationChannel | undefined;
+
+// NOTIFICATION_CHANNEL 환경변수에 따라 채널 선택 (smtp | file | console)
+export const getNotificationChannel = (): NotificationChannel => {
+  if (channel) return channel;
+
+  switch (process.env.NOTIFICATION_CHANNEL) {
+    case "smtp":
+      channel = new SmtpChannel();
+      break;
+    case "file":
+      channel = new LogChannel(
+        process.env.NOTIFICATION_LOG_FILE || "notifications.log"
+      );
+      break;
+    default:
+      channel = new LogChannel();
+  }
+
+  return channel;
+};
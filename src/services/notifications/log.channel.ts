@@ -0,0 +1,27 @@
+import fs from "fs/promises";
+import { NotificationChannel, NotificationMessage } from "./types";
+
+// 개발용 채널: 콘솔 출력 또는 파일(NOTIFICATION_LOG_FILE)에 기록
+export class LogChannel implements NotificationChannel {
+  name: string;
+
+  constructor(private filePath?: string) {
+    this.name = filePath ? "file" : "console";
+  }
+
+  async send(message: NotificationMessage) {
+    const entry = [
+      `[${new Date().toISOString()}] To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      "",
+      message.text,
+      "",
+    ].join("\n");
+
+    if (this.filePath) {
+      await fs.appendFile(this.filePath, `${entry}\n`, "utf-8");
+    } else {
+      console.log(`📧 ${entry}`);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { NotificationChannel, NotificationMessage } from "./types";
+
+// SMTP 이메일 채널
+export class SmtpChannel implements NotificationChannel {
+  name = "email";
+  private transporter: Transporter;
+  private from: string;
+
+  constructor() {
+    const host = process.env.SMTP_HOST;
+
+    if (!host) {
+      throw new Error("SMTP_HOST 환경변수가 설정되지 않았습니다.");
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+    this.from = process.env.SMTP_FROM || "Zerocraft <no-reply@zerocraft.kr>";
+  }
+
+  async send(message: NotificationMessage) {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+// 알림 메시지
+export interface NotificationMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// 알림 전송 채널 (SMTP, 로그 등)
+export interface NotificationChannel {
+  name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
@@ -26,8 +26,20 @@ export interface PaginatedResponse<T> {
   };
 }
 
-// 사업계획서 상태
-export type BusinessPlanStatus = "draft" | "completed";
+// 사업계획서 상태 (작성 중 → 검토 중 → 작성 완료 → 제출 → 선정/탈락)
+export type BusinessPlanStatus =
+  | "draft"
+  | "in_review"
+  | "completed"
+  | "submitted"
+  | "selected"
+  | "rejected";
+
+// 사업계획서 AI 생성 작업 상태
+export type GenerationJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+// 섹션 AI 편집 제안 상태
+export type SectionProposalStatus = "pending" | "accepted" | "discarded";
 
 // 지원사업 상태
 export type GrantStatus = "open" | "closed";
@@ -36,7 +48,7 @@ export type GrantStatus = "open" | "closed";
 export type PaymentStatus = "pending" | "completed" | "failed" | "cancelled";
 
 // 이용권 내역 타입
-export type CreditHistoryType = "purchase" | "use";
+export type CreditHistoryType = "purchase" | "use" | "edit";
 
 // 사업계획서 섹션
 export interface BusinessPlanSection {
@@ -47,9 +59,40 @@ export interface BusinessPlanSection {
 
 // 사업계획서 콘텐츠
 export interface BusinessPlanContent {
+  schemaVersion: number;
   sections: BusinessPlanSection[];
 }
 
+// 사업계획서 data 의 값 (문자열/숫자 등 단일 값, 단일 값 객체, 또는 그 배열)
+export type BusinessPlanScalar = string | number | boolean | null;
+export type BusinessPlanRecord = Record<string, BusinessPlanScalar>;
+export type BusinessPlanValue =
+  | BusinessPlanScalar
+  | BusinessPlanRecord
+  | (BusinessPlanScalar | BusinessPlanRecord)[];
+
+// 사업계획서 data 하위 섹션
+export interface BusinessPlanSubSection {
+  subTitle?: string;
+  content?: Record<string, BusinessPlanValue>;
+}
+
+// 사업계획서 data 섹션 (generalStatus, summary 등)
+export interface BusinessPlanDataSection {
+  title?: string;
+  data?: Record<string, BusinessPlanValue>;
+  subSections?: BusinessPlanSubSection[];
+}
+
+// 사업계획서 data (AI 생성 데이터)
+export interface BusinessPlanData {
+  schemaVersion: number;
+  documentTitle?: string;
+  // data 섹션 출력 순서 (저장 시 객체 키 순서가 유지되지 않으므로 배열로 보관)
+  sectionOrder?: string[];
+  sections: Record<string, BusinessPlanDataSection>;
+}
+
 // 지원사업 연락처 정보
 export interface GrantContactInfo {
   phone?: string;
@@ -57,6 +100,30 @@ export interface GrantContactInfo {
   website?: string;
 }
 
+// 매출 규모 구간
+export type RevenueBand =
+  | "none"
+  | "under_100m"
+  | "100m_1b"
+  | "1b_10b"
+  | "over_10b";
+
+// 대표자 성별
+export type FounderGender = "male" | "female";
+
+// 지원사업 지원자격 조건 (지정하지 않은 조건은 제한 없음)
+export interface GrantEligibilityCriteria {
+  regions?: string[];
+  minBusinessAgeYears?: number;
+  maxBusinessAgeYears?: number;
+  preFounderAllowed?: boolean;
+  industryCodes?: string[]; // KSIC 코드 접두사
+  maxEmployeeCount?: number;
+  revenueBands?: RevenueBand[];
+  maxFounderAge?: number;
+  founderGender?: FounderGender;
+}
+
 // API 에러 응답
 export interface ApiError {
   message: string;
@@ -65,3 +132,23 @@ export interface ApiError {
     message: string;
   }[];
 }
+
+// 지원사업 양식 항목 (섹션 data 또는 하위 섹션 content 의 키)
+export interface BusinessPlanTemplateField {
+  key: string;
+  label?: string;
+  required?: boolean;
+  maxLength?: number;
+}
+
+// 지원사업 양식 섹션 (배열 순서가 문서 출력 순서)
+export interface BusinessPlanTemplateSection {
+  key: string;
+  title: string;
+  required?: boolean;
+  // 섹션 전체 글자 수 제한
+  maxLength?: number;
+  // 새 사업계획서에 미리 만들어 둘 하위 섹션 소제목
+  subSections?: string[];
+  fields?: BusinessPlanTemplateField[];
+}
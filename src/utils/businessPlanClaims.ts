@@ -0,0 +1,178 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { prisma } from "./prisma";
+import {
+  BadRequestError,
+  NotFoundError,
+  TooManyRequestsError,
+} from "../middlewares/error.middleware";
+import { BUSINESS_PLAN_INCLUDE } from "./businessPlans";
+
+// claim 토큰 유효 기간 (7일)
+export const CLAIM_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 실패한 claim 시도 제한 (15분 동안 사용자당 5회, IP 당 20회)
+const CLAIM_RATE_WINDOW_MS = 15 * 60 * 1000;
+const CLAIM_MAX_FAILURES_PER_USER = 5;
+const CLAIM_MAX_FAILURES_PER_IP = 20;
+
+// 비회원 작성 제한 (1시간 동안 IP 당 10건)
+const DRAFT_RATE_WINDOW_MS = 60 * 60 * 1000;
+const DRAFT_MAX_PER_IP = 10;
+
+export type ClaimAttemptResult =
+  | "claimed"
+  | "invalid_token"
+  | "expired"
+  | "already_claimed"
+  | "not_found"
+  | "rate_limited";
+
+export interface ClaimRequestInfo {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// 존재 여부/소유 여부를 구분할 수 없도록 같은 응답 사용
+const CLAIM_FAILED_MESSAGE =
+  "사업계획서를 찾을 수 없거나 claim 토큰이 올바르지 않습니다.";
+
+export const hashClaimToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+// 일회용 claim 토큰 발급 (원문은 응답으로 한 번만 전달하고 해시만 저장)
+export const createClaimToken = () => {
+  const token = randomBytes(32).toString("base64url");
+  return {
+    token,
+    hash: hashClaimToken(token),
+    expiresAt: new Date(Date.now() + CLAIM_TOKEN_TTL_MS),
+  };
+};
+
+const isSameHash = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const recordClaimAttempt = (
+  businessPlanId: string,
+  info: ClaimRequestInfo,
+  result: ClaimAttemptResult
+) =>
+  prisma.businessPlanClaimAttempt.create({
+    data: {
+      businessPlanId: businessPlanId.slice(0, 100),
+      userId: info.userId,
+      ipAddress: info.ipAddress?.slice(0, 100) ?? null,
+      userAgent: info.userAgent?.slice(0, 500) ?? null,
+      result,
+    },
+  });
+
+// 최근 실패 횟수가 한도를 넘으면 429 (제한된 시도도 기록)
+const assertClaimRateLimit = async (businessPlanId: string, info: ClaimRequestInfo) => {
+  const since = new Date(Date.now() - CLAIM_RATE_WINDOW_MS);
+  const failed = { not: "claimed" as const };
+
+  const [userFailures, ipFailures] = await Promise.all([
+    prisma.businessPlanClaimAttempt.count({
+      where: { userId: info.userId, result: failed, createdAt: { gte: since } },
+    }),
+    info.ipAddress
+      ? prisma.businessPlanClaimAttempt.count({
+          where: { ipAddress: info.ipAddress, result: failed, createdAt: { gte: since } },
+        })
+      : Promise.resolve(0),
+  ]);
+
+  if (userFailures >= CLAIM_MAX_FAILURES_PER_USER || ipFailures >= CLAIM_MAX_FAILURES_PER_IP) {
+    await recordClaimAttempt(businessPlanId, info, "rate_limited");
+    throw new TooManyRequestsError(
+      "사업계획서 가져오기 시도가 너무 많습니다. 잠시 후 다시 시도해주세요.",
+      { retryAfterSeconds: CLAIM_RATE_WINDOW_MS / 1000 }
+    );
+  }
+};
+
+// claim 토큰으로 소유자 없는 사업계획서를 내 계정으로 가져오기
+// 성공하면 토큰은 폐기되어 다시 사용할 수 없음
+export const claimBusinessPlan = async (
+  businessPlanId: string,
+  claimToken: string,
+  info: ClaimRequestInfo
+) => {
+  await assertClaimRateLimit(businessPlanId, info);
+
+  const fail = async (result: ClaimAttemptResult): Promise<never> => {
+    await recordClaimAttempt(businessPlanId, info, result);
+    if (result === "expired") {
+      throw new BadRequestError("claim 토큰이 만료되었습니다. 사업계획서를 다시 작성해주세요.");
+    }
+    throw new NotFoundError(CLAIM_FAILED_MESSAGE);
+  };
+
+  const businessPlan = await prisma.businessPlan.findUnique({
+    where: { id: businessPlanId },
+  });
+
+  if (!businessPlan) return fail("not_found");
+  if (businessPlan.userId !== null || !businessPlan.claimTokenHash) {
+    return fail("already_claimed");
+  }
+
+  const tokenHash = hashClaimToken(claimToken);
+  if (!isSameHash(tokenHash, businessPlan.claimTokenHash)) {
+    return fail("invalid_token");
+  }
+  if (!businessPlan.claimTokenExpiresAt || businessPlan.claimTokenExpiresAt < new Date()) {
+    return fail("expired");
+  }
+
+  // 동시에 같은 토큰으로 요청해도 한 번만 성공
+  const { count } = await prisma.businessPlan.updateMany({
+    where: { id: businessPlanId, userId: null, claimTokenHash: tokenHash },
+    data: {
+      userId: info.userId,
+      claimTokenHash: null,
+      claimTokenExpiresAt: null,
+      draftIpAddress: null,
+      version: { increment: 1 },
+    },
+  });
+
+  if (count === 0) return fail("already_claimed");
+
+  await recordClaimAttempt(businessPlanId, info, "claimed");
+
+  return prisma.businessPlan.findUniqueOrThrow({
+    where: { id: businessPlanId },
+    include: BUSINESS_PLAN_INCLUDE,
+  });
+};
+
+// 같은 IP 에서 최근 작성한 비회원 사업계획서가 한도를 넘으면 429
+export const assertDraftRateLimit = async (ipAddress?: string) => {
+  if (!ipAddress) return;
+
+  const recent = await prisma.businessPlan.count({
+    where: {
+      userId: null,
+      draftIpAddress: ipAddress.slice(0, 100),
+      createdAt: { gte: new Date(Date.now() - DRAFT_RATE_WINDOW_MS) },
+    },
+  });
+
+  if (recent >= DRAFT_MAX_PER_IP) {
+    throw new TooManyRequestsError(
+      "비회원 작성 요청이 너무 많습니다. 로그인 후 작성하거나 잠시 후 다시 시도해주세요."
+    );
+  }
+};
+
+// claim 토큰이 만료된 비회원 사업계획서 삭제
+export const deleteExpiredDrafts = async (now: Date = new Date()) => {
+  const result = await prisma.businessPlan.deleteMany({
+    where: { userId: null, claimTokenExpiresAt: { lt: now } },
+  });
+
+  return result.count;
+};
@@ -0,0 +1,158 @@
+import { BusinessPlan, BusinessPlanGenerationJob, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  BadRequestError,
+  ConflictError,
+  FieldError,
+  ValidationError,
+} from "../middlewares/error.middleware";
+import { buildGeneralStatusData } from "./companyProfile";
+import { findTemplateSections } from "./businessPlanTemplates";
+import {
+  DEFAULT_GENERATION_SECTIONS,
+  GenerationInput,
+  getGenerationProvider,
+} from "../services/generation";
+
+// 사업계획서 생성 1회에 차감하는 이용권
+export const GENERATION_CREDIT_COST = 1;
+
+// 사용자 입력 제한
+const MAX_INPUT_KEYS = 30;
+const MAX_INPUT_LENGTH = 5000;
+
+// 진행 중인 작업 상태
+export const ACTIVE_GENERATION_STATUSES = ["queued", "running"];
+
+// 생성 작업 응답 형식 (입력 스냅샷은 제외)
+export const formatGenerationJob = (job: BusinessPlanGenerationJob) => ({
+  id: job.id,
+  businessPlanId: job.businessPlanId,
+  status: job.status,
+  provider: job.provider,
+  creditCost: job.creditCost,
+  // 이용권은 성공했을 때만 차감
+  charged: job.chargedAt !== null,
+  error: job.error,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+  createdAt: job.createdAt,
+});
+
+// 사용자 입력 검증 (키 → 문자열)
+const parseGenerationInputs = (inputs: unknown): Record<string, string> => {
+  if (inputs === undefined || inputs === null) return {};
+
+  if (typeof inputs !== "object" || Array.isArray(inputs)) {
+    throw new ValidationError([{ field: "inputs", message: "inputs 는 객체여야 합니다." }]);
+  }
+
+  const entries = Object.entries(inputs);
+  const errors: FieldError[] = [];
+
+  if (entries.length > MAX_INPUT_KEYS) {
+    errors.push({ field: "inputs", message: `입력 항목은 최대 ${MAX_INPUT_KEYS}개입니다.` });
+  }
+  for (const [key, value] of entries) {
+    if (typeof value !== "string") {
+      errors.push({ field: `inputs.${key}`, message: "문자열이어야 합니다." });
+    } else if (value.length > MAX_INPUT_LENGTH) {
+      errors.push({
+        field: `inputs.${key}`,
+        message: `${MAX_INPUT_LENGTH}자 이하로 입력해주세요.`,
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  return Object.fromEntries(entries) as Record<string, string>;
+};
+
+// 사업계획서의 지원사업/기업 정보와 사용자 입력으로 생성 요청 구성
+// 지원사업 양식이 있으면 양식 섹션, 없으면 기본 섹션을 생성 대상으로 함
+export const buildGenerationInput = async (
+  businessPlan: BusinessPlan,
+  userId: string,
+  inputs: unknown
+): Promise<GenerationInput> => {
+  const parsedInputs = parseGenerationInputs(inputs);
+
+  const [grant, profile, templateSections] = await Promise.all([
+    businessPlan.grantId
+      ? prisma.grant.findUnique({ where: { id: businessPlan.grantId } })
+      : Promise.resolve(null),
+    prisma.companyProfile.findUnique({ where: { userId } }),
+    findTemplateSections(businessPlan.grantId),
+  ]);
+
+  return {
+    title: businessPlan.title,
+    grant: grant && {
+      id: grant.id,
+      title: grant.title,
+      organization: grant.organization,
+      category: grant.category,
+      description: grant.description,
+      eligibility: grant.eligibility,
+      amount: grant.amount,
+    },
+    companyProfile: profile ? buildGeneralStatusData(profile) : null,
+    inputs: parsedInputs,
+    sections: templateSections ?? DEFAULT_GENERATION_SECTIONS,
+  };
+};
+
+// 지원사업/기업 정보/사용자 입력으로 생성 작업 등록 (이용권은 성공 시 차감)
+// - 이미 진행 중인 작업이 있으면 409 (동시 요청은 activeKey 고유 제약으로 하나만 등록)
+// - 이용권이 부족하면 400 (차감은 성공 시점에 다시 확인)
+export const createGenerationJob = async (
+  businessPlan: BusinessPlan,
+  userId: string,
+  inputs: unknown
+) => {
+  const input = await buildGenerationInput(businessPlan, userId, inputs);
+
+  const assertNoActiveJob = async () => {
+    const active = await prisma.businessPlanGenerationJob.findFirst({
+      where: { businessPlanId: businessPlan.id, status: { in: ACTIVE_GENERATION_STATUSES } },
+    });
+    if (active) {
+      throw new ConflictError("이미 진행 중인 생성 작업이 있습니다.", {
+        job: formatGenerationJob(active),
+      });
+    }
+  };
+
+  await assertNoActiveJob();
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user || user.credits < GENERATION_CREDIT_COST) {
+    throw new BadRequestError("이용권이 부족합니다.");
+  }
+
+  try {
+    return await prisma.businessPlanGenerationJob.create({
+      data: {
+        businessPlanId: businessPlan.id,
+        activeKey: businessPlan.id,
+        userId,
+        provider: getGenerationProvider().name,
+        input: input as unknown as Prisma.InputJsonObject,
+        creditCost: GENERATION_CREDIT_COST,
+      },
+    });
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+    // 같은 사업계획서에 동시에 등록된 작업이 먼저 저장됨
+    await assertNoActiveJob();
+    throw new ConflictError("이미 진행 중인 생성 작업이 있습니다.");
+  }
+};
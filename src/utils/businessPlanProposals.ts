@@ -0,0 +1,334 @@
+import { BusinessPlan, BusinessPlanSectionProposal, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "../middlewares/error.middleware";
+import { BusinessPlanTemplateSection, BusinessPlanValue } from "../types";
+import {
+  PlanDocument,
+  findSection,
+  toPlanDocument,
+  updateSection,
+  updateSubSection,
+} from "./businessPlanSections";
+import { prepareBusinessPlanJson } from "./businessPlanSchema";
+import { saveBusinessPlan } from "./businessPlans";
+import { buildGenerationInput } from "./businessPlanGeneration";
+import { SectionEditAction, getGenerationProvider } from "../services/generation";
+
+type JsonRecord = Record<string, any>;
+
+// 0 이상의 정수 환경변수 (형식이 잘못되면 경고 후 기본값)
+const readTokenEnv = (name: string, fallback: number) => {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+  if (!/^\d+$/.test(raw)) {
+    console.warn(`${name}=${raw} 은(는) 0 이상의 정수가 아니므로 기본값 ${fallback} 을 사용합니다.`);
+    return fallback;
+  }
+  return Number(raw);
+};
+
+// 섹션 AI 편집 1회에 쓰는 편집 토큰, 이용권 1개로 충전되는 편집 토큰 (환경변수로 조정, 시작 시 한 번 검사)
+export const SECTION_EDIT_TOKEN_COST = readTokenEnv("SECTION_EDIT_TOKEN_COST", 1);
+const EDIT_TOKENS_PER_CREDIT = readTokenEnv("EDIT_TOKENS_PER_CREDIT", 5);
+
+export const SECTION_EDIT_ACTIONS: SectionEditAction[] = [
+  "regenerate",
+  "shorten",
+  "expand",
+  "tone",
+];
+
+const ACTION_LABELS: Record<SectionEditAction, string> = {
+  regenerate: "다시 생성",
+  shorten: "줄이기",
+  expand: "늘리기",
+  tone: "어조 변경",
+};
+
+// 편집 대상 (subSectionIndex 가 null 이면 섹션 data, 아니면 하위 섹션 content)
+export interface ProposalTarget {
+  sectionKey: string;
+  subSectionIndex: number | null;
+}
+
+const isPlainObject = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// 편집 제안 응답 형식
+export const formatSectionProposal = (proposal: BusinessPlanSectionProposal) => ({
+  id: proposal.id,
+  businessPlanId: proposal.businessPlanId,
+  sectionKey: proposal.sectionKey,
+  subSectionIndex: proposal.subSectionIndex,
+  action: proposal.action,
+  tone: proposal.tone,
+  original: proposal.original,
+  proposed: proposal.proposed,
+  status: proposal.status,
+  tokenCost: proposal.tokenCost,
+  createdAt: proposal.createdAt,
+  resolvedAt: proposal.resolvedAt,
+});
+
+// 편집 대상의 현재 내용 (data 섹션만 지원)
+const readTarget = (doc: PlanDocument, target: ProposalTarget) => {
+  const found = findSection(doc, target.sectionKey);
+  if (found.source !== "data") {
+    throw new BadRequestError("AI 편집은 data 섹션에서만 사용할 수 있습니다.");
+  }
+
+  const section = isPlainObject(found.section) ? found.section : {};
+  const title = typeof section.title === "string" ? section.title : target.sectionKey;
+
+  if (target.subSectionIndex === null) {
+    return { title, subTitle: null, content: isPlainObject(section.data) ? section.data : {} };
+  }
+
+  const subSections = Array.isArray(section.subSections) ? section.subSections : [];
+  if (target.subSectionIndex >= subSections.length) {
+    throw new NotFoundError("하위 섹션을 찾을 수 없습니다.");
+  }
+
+  const subSection = isPlainObject(subSections[target.subSectionIndex])
+    ? subSections[target.subSectionIndex]
+    : {};
+  return {
+    title,
+    subTitle: typeof subSection.subTitle === "string" ? subSection.subTitle : "",
+    content: isPlainObject(subSection.content) ? subSection.content : {},
+  };
+};
+
+// 편집 대상에 내용 반영
+const applyTarget = (
+  doc: PlanDocument,
+  target: ProposalTarget,
+  content: Record<string, unknown>
+) => {
+  if (target.subSectionIndex === null) {
+    updateSection(doc, target.sectionKey, { data: content });
+  } else {
+    updateSubSection(doc, target.sectionKey, target.subSectionIndex, { content });
+  }
+};
+
+// 편집 토큰 차감 (부족하면 필요한 만큼 이용권을 편집 토큰으로 환산해 충전)
+// 충전과 사용 모두 이용권 내역에 기록
+export const chargeEditTokens = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  cost: number,
+  description: string,
+  businessPlanId: string
+) => {
+  if (cost <= 0) return;
+
+  const user = await tx.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { editTokens: true },
+  });
+
+  const shortage = cost - user.editTokens;
+  const perCredit = EDIT_TOKENS_PER_CREDIT;
+  if (shortage > 0 && perCredit > 0) {
+    const credits = Math.ceil(shortage / perCredit);
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, credits: { gte: credits } },
+      data: {
+        credits: { decrement: credits },
+        editTokens: { increment: credits * perCredit },
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestError("이용권이 부족합니다.");
+    }
+
+    await tx.creditHistory.create({
+      data: {
+        userId,
+        type: "use",
+        amount: -credits,
+        description: `섹션 편집 토큰 충전 (+${credits * perCredit})`,
+        businessPlanId,
+      },
+    });
+  }
+
+  const { count } = await tx.user.updateMany({
+    where: { id: userId, editTokens: { gte: cost } },
+    data: { editTokens: { decrement: cost } },
+  });
+  if (count === 0) {
+    throw new BadRequestError("편집 토큰이 부족합니다.");
+  }
+
+  await tx.creditHistory.create({
+    data: {
+      userId,
+      type: "edit",
+      amount: -cost,
+      description: description.slice(0, 200),
+      businessPlanId,
+    },
+  });
+};
+
+// 섹션/하위 섹션 AI 편집 제안 생성 (생성에 성공했을 때만 편집 토큰 차감)
+export const createSectionProposal = async (
+  businessPlan: BusinessPlan,
+  userId: string,
+  target: ProposalTarget,
+  request: { action: SectionEditAction; tone?: string; inputs?: unknown }
+) => {
+  if (request.action === "tone" && !request.tone) {
+    throw new BadRequestError("어조 변경에는 tone 이 필요합니다.");
+  }
+
+  const doc = toPlanDocument(businessPlan);
+  const current = readTarget(doc, target);
+  const cost = SECTION_EDIT_TOKEN_COST;
+
+  // 생성 전에 잔액 확인 (실제 차감은 저장 시점에 다시 확인)
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  if (user.editTokens + user.credits * EDIT_TOKENS_PER_CREDIT < cost) {
+    throw new BadRequestError("이용권이 부족합니다.");
+  }
+
+  const input = await buildGenerationInput(businessPlan, userId, request.inputs);
+  const spec: BusinessPlanTemplateSection = input.sections.find(
+    (section) => section.key === target.sectionKey
+  ) ?? { key: target.sectionKey, title: current.title };
+
+  let proposed: Record<string, BusinessPlanValue>;
+  try {
+    const provider = getGenerationProvider();
+    if (request.action !== "regenerate") {
+      proposed = await provider.rewriteContent(input, spec, {
+        action: request.action,
+        tone: request.tone,
+        content: current.content,
+      });
+    } else if (current.subTitle === null) {
+      const generated = await provider.generateSection(input, { ...spec, subSections: [] });
+      proposed = generated.data ?? {};
+    } else {
+      const generated = await provider.generateSection(input, {
+        key: spec.key,
+        title: spec.title,
+        subSections: [current.subTitle],
+      });
+      proposed = generated.subSections?.[0]?.content ?? {};
+    }
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    console.error("Section edit generation failed:", error);
+    throw new AppError("AI 편집 요청에 실패했습니다. 잠시 후 다시 시도해주세요.", 502);
+  }
+
+  // 반영했을 때 스키마에 맞는지 미리 확인
+  applyTarget(doc, target, proposed);
+  prepareBusinessPlanJson(doc);
+
+  const label = current.subTitle ? `${current.title} > ${current.subTitle}` : current.title;
+
+  return prisma.$transaction(async (tx) => {
+    await chargeEditTokens(
+      tx,
+      userId,
+      cost,
+      `섹션 편집(${ACTION_LABELS[request.action]}): ${label}`,
+      businessPlan.id
+    );
+
+    return tx.businessPlanSectionProposal.create({
+      data: {
+        businessPlanId: businessPlan.id,
+        userId,
+        sectionKey: target.sectionKey,
+        subSectionIndex: target.subSectionIndex,
+        action: request.action,
+        tone: request.action === "tone" ? request.tone : null,
+        original: current.content as Prisma.InputJsonObject,
+        proposed: proposed as Prisma.InputJsonObject,
+        tokenCost: Math.max(cost, 0),
+      },
+    });
+  });
+};
+
+// 사업계획서의 편집 제안 조회
+export const findSectionProposal = async (businessPlanId: string, proposalId: string) => {
+  const proposal = await prisma.businessPlanSectionProposal.findFirst({
+    where: { id: proposalId, businessPlanId },
+  });
+
+  if (!proposal) {
+    throw new NotFoundError("편집 제안을 찾을 수 없습니다.");
+  }
+
+  return proposal;
+};
+
+const assertPending = (proposal: BusinessPlanSectionProposal) => {
+  if (proposal.status !== "pending") {
+    throw new ConflictError("이미 처리된 편집 제안입니다.", {
+      proposal: formatSectionProposal(proposal),
+    });
+  }
+};
+
+// 편집 제안 수락 (제안 이후 대상 내용이 바뀌었으면 409, 저장 시 리비전 기록)
+export const acceptSectionProposal = async (
+  businessPlan: BusinessPlan,
+  userId: string,
+  proposal: BusinessPlanSectionProposal
+) => {
+  assertPending(proposal);
+
+  const target = {
+    sectionKey: proposal.sectionKey,
+    subSectionIndex: proposal.subSectionIndex,
+  };
+  const doc = toPlanDocument(businessPlan);
+
+  if (!isSameValue(readTarget(doc, target).content, proposal.original)) {
+    throw new ConflictError("편집 제안을 만든 뒤 섹션이 수정되었습니다. 다시 요청해주세요.");
+  }
+
+  applyTarget(doc, target, proposal.proposed as JsonRecord);
+
+  return saveBusinessPlan(businessPlan, userId, prepareBusinessPlanJson(doc), {
+    onSaved: async (tx) => {
+      const { count } = await tx.businessPlanSectionProposal.updateMany({
+        where: { id: proposal.id, status: "pending" },
+        data: { status: "accepted", resolvedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new ConflictError("이미 처리된 편집 제안입니다.");
+      }
+    },
+  });
+};
+
+// 편집 제안 취소 (사용한 편집 토큰은 돌려주지 않음)
+export const discardSectionProposal = async (proposal: BusinessPlanSectionProposal) => {
+  assertPending(proposal);
+
+  const { count } = await prisma.businessPlanSectionProposal.updateMany({
+    where: { id: proposal.id, status: "pending" },
+    data: { status: "discarded", resolvedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new ConflictError("이미 처리된 편집 제안입니다.");
+  }
+
+  return prisma.businessPlanSectionProposal.findUniqueOrThrow({ where: { id: proposal.id } });
+};
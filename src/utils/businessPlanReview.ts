@@ -0,0 +1,316 @@
+import { BusinessPlan, Grant } from "@prisma/client";
+import { BusinessPlanTemplateSection } from "../types";
+import { findFieldValue, sectionLength, textLength } from "./businessPlanTemplates";
+import { toPlanDocument } from "./businessPlanSections";
+import { DEFAULT_GENERATION_SECTIONS } from "../services/generation";
+
+type JsonRecord = Record<string, any>;
+
+export type ReviewStatus = "pass" | "warning" | "fail";
+
+// 점검 항목 (id 는 섹션 안에서 고유)
+export interface ReviewCheck {
+  id: string;
+  label: string;
+  status: ReviewStatus;
+  message?: string;
+}
+
+export interface SectionReview {
+  key: string;
+  title: string;
+  source: "data" | "content";
+  // 0~100 (통과 1, 경고 0.5, 실패 0 의 평균)
+  score: number;
+  checklist: ReviewCheck[];
+}
+
+// 시장 규모 항목으로 보는 키/소제목
+const MARKET_SIZE_PATTERN = /market\s*_?size|시장\s*규모|\b(TAM|SAM|SOM)\b/i;
+// 팀 섹션으로 보는 키/제목
+const TEAM_SECTION_PATTERN = /^team$|팀\s*구성|인력\s*현황|조직\s*구성/i;
+// 팀원 역할로 보는 키
+const ROLE_KEY_PATTERN = /^(role|position|responsibility|역할|직위|직책|담당|담당\s*업무)$/i;
+// 팀원 정보로 보는 키 (이름 또는 역할이 있는 레코드)
+const MEMBER_KEY_PATTERN = /^(name|이름|성명)$/i;
+
+const isPlainObject = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const STATUS_POINTS: Record<ReviewStatus, number> = { pass: 1, warning: 0.5, fail: 0 };
+
+const scoreOf = (checklist: ReviewCheck[]) =>
+  checklist.length === 0
+    ? 100
+    : Math.round(
+        (checklist.reduce((sum, check) => sum + STATUS_POINTS[check.status], 0) /
+          checklist.length) *
+          100
+      );
+
+// 값 안의 모든 문자열 (제출서류 언급 여부 확인용)
+const collectText = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (typeof value === "number") return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(collectText);
+  if (isPlainObject(value)) return Object.values(value).flatMap(collectText);
+  return [];
+};
+
+// 제출서류 이름 비교용 (괄호 안 설명, "사본", "1부" 등과 공백 제거)
+const normalizeDocumentName = (name: string) =>
+  name
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, "")
+    .replace(/사본|원본|\d+\s*부/g, "")
+    .replace(/\s+/g, "")
+    .toLowerCase();
+
+// 값에 숫자가 포함되어 있는지 (숫자 값이거나 문자열에 숫자가 있으면)
+const hasNumber = (value: unknown): boolean => {
+  if (typeof value === "number") return true;
+  if (typeof value === "string") return /\d/.test(value);
+  if (Array.isArray(value)) return value.some(hasNumber);
+  if (isPlainObject(value)) return Object.values(value).some(hasNumber);
+  return false;
+};
+
+// 섹션 안의 [키, 값] 목록 (data, 하위 섹션 content, 레코드 안의 키 포함)
+// 하위 섹션은 소제목을 키로 content 전체를 값으로도 포함
+const collectEntries = (section: JsonRecord): [string, unknown][] => {
+  const entries: [string, unknown][] = [];
+
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+    } else if (isPlainObject(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        entries.push([key, item]);
+        walk(item);
+      }
+    }
+  };
+
+  walk(section.data);
+  for (const subSection of Array.isArray(section.subSections) ? section.subSections : []) {
+    if (!isPlainObject(subSection)) continue;
+    if (typeof subSection.subTitle === "string") {
+      entries.push([subSection.subTitle, subSection.content]);
+    }
+    walk(subSection.content);
+  }
+
+  return entries;
+};
+
+// 섹션 안의 레코드 배열 항목 (팀원 표 등)
+const collectRecords = (section: JsonRecord) =>
+  collectEntries(section).flatMap(([, value]) =>
+    Array.isArray(value) ? value.filter(isPlainObject) : []
+  );
+
+// 시장 규모 항목에 수치가 있는지
+const checkMarketSize = (section: JsonRecord): ReviewCheck | null => {
+  const marketEntries = collectEntries(section).filter(([key]) =>
+    MARKET_SIZE_PATTERN.test(key)
+  );
+  if (marketEntries.length === 0) return null;
+
+  const ok = marketEntries.every(([, value]) => hasNumber(value));
+  return {
+    id: "market_size_numbers",
+    label: "시장 규모에 수치(금액, 규모, 성장률 등)가 있어야 합니다.",
+    status: ok ? "pass" : "fail",
+    ...(!ok && { message: "시장 규모 항목에 수치가 없습니다. 출처와 함께 금액이나 규모를 적어주세요." }),
+  };
+};
+
+// 팀원마다 역할이 있는지
+const checkTeamRoles = (section: JsonRecord): ReviewCheck => {
+  const members = collectRecords(section).filter((record) =>
+    Object.keys(record).some((key) => MEMBER_KEY_PATTERN.test(key) || ROLE_KEY_PATTERN.test(key))
+  );
+  const label = "팀원마다 역할(담당 업무)이 있어야 합니다.";
+
+  if (members.length === 0) {
+    return {
+      id: "team_roles",
+      label,
+      status: "warning",
+      message: "팀원 정보를 이름, 역할이 있는 표 형식으로 입력하면 검토하기 쉽습니다.",
+    };
+  }
+
+  const missing = members.filter(
+    (member) =>
+      !Object.entries(member).some(
+        ([key, value]) => ROLE_KEY_PATTERN.test(key) && textLength(value) > 0
+      )
+  ).length;
+
+  return {
+    id: "team_roles",
+    label,
+    status: missing === 0 ? "pass" : "fail",
+    ...(missing > 0 && { message: `역할이 없는 팀원이 ${missing}명 있습니다.` }),
+  };
+};
+
+// data 섹션 점검 (양식 조건 + 휴리스틱)
+const reviewDataSection = (
+  key: string,
+  section: JsonRecord | undefined,
+  spec: BusinessPlanTemplateSection | undefined
+): SectionReview => {
+  const title =
+    spec?.title ?? (typeof section?.title === "string" && section.title ? section.title : key);
+  const checklist: ReviewCheck[] = [];
+  const length = section ? sectionLength(section) : 0;
+
+  checklist.push({
+    id: "not_empty",
+    label: "내용이 작성되어 있어야 합니다.",
+    status: length > 0 ? "pass" : spec?.required || !spec ? "fail" : "warning",
+    ...(length === 0 && { message: `${title} 섹션이 비어 있습니다.` }),
+  });
+
+  if (spec?.maxLength) {
+    const ok = length <= spec.maxLength;
+    checklist.push({
+      id: "max_length",
+      label: `${spec.maxLength}자 이하로 작성해야 합니다.`,
+      status: ok ? "pass" : "fail",
+      ...(!ok && { message: `현재 ${length}자입니다.` }),
+    });
+  }
+
+  for (const field of spec?.fields ?? []) {
+    const fieldLabel = field.label || field.key;
+    const fieldLength = section ? textLength(findFieldValue(section, field.key)) : 0;
+
+    if (field.required) {
+      checklist.push({
+        id: `field_required:${field.key}`,
+        label: `${fieldLabel} 항목은 필수입니다.`,
+        status: fieldLength > 0 ? "pass" : "fail",
+        ...(fieldLength === 0 && { message: `${fieldLabel} 항목이 비어 있습니다.` }),
+      });
+    }
+    if (field.maxLength) {
+      const ok = fieldLength <= field.maxLength;
+      checklist.push({
+        id: `field_max_length:${field.key}`,
+        label: `${fieldLabel} 항목은 ${field.maxLength}자 이하로 작성해야 합니다.`,
+        status: ok ? "pass" : "fail",
+        ...(!ok && { message: `현재 ${fieldLength}자입니다.` }),
+      });
+    }
+  }
+
+  if (section && length > 0) {
+    const marketSize = checkMarketSize(section);
+    if (marketSize) checklist.push(marketSize);
+
+    if (TEAM_SECTION_PATTERN.test(key) || TEAM_SECTION_PATTERN.test(title)) {
+      checklist.push(checkTeamRoles(section));
+    }
+  }
+
+  return { key, title, source: "data", score: scoreOf(checklist), checklist };
+};
+
+// 사업계획서 점검 (지원사업 제출서류, 양식의 필수 항목/글자 수, 휴리스틱)
+// - 양식이 있으면 양식 섹션, 없으면 기본 섹션을 기준으로 점검하고 그 외 작성한 섹션도 포함
+// - 양식 없이 content 만 작성한 계획서(문서 가져오기 등)는 기본 섹션을 점검하지 않음
+export const reviewBusinessPlan = (
+  businessPlan: BusinessPlan,
+  grant: Pick<Grant, "id" | "title" | "requiredDocuments"> | null,
+  templateSections: BusinessPlanTemplateSection[] | null
+) => {
+  const doc = toPlanDocument(businessPlan);
+  const dataSections: JsonRecord = doc.data.sections;
+  const contentBased =
+    !Object.values(dataSections).some(isPlainObject) && doc.content.sections.length > 0;
+  const expected = templateSections ?? (contentBased ? [] : DEFAULT_GENERATION_SECTIONS);
+
+  const sections: SectionReview[] = expected.map((spec) =>
+    reviewDataSection(
+      spec.key,
+      hasOwn(dataSections, spec.key) && isPlainObject(dataSections[spec.key])
+        ? dataSections[spec.key]
+        : undefined,
+      // 양식이 없으면 기본 섹션은 작성 여부만 점검
+      templateSections ? spec : { key: spec.key, title: spec.title, required: true }
+    )
+  );
+
+  for (const [key, section] of Object.entries(dataSections)) {
+    if (expected.some((spec) => spec.key === key) || !isPlainObject(section)) continue;
+    sections.push(reviewDataSection(key, section, undefined));
+  }
+
+  for (const section of doc.content.sections) {
+    if (!isPlainObject(section)) continue;
+    const title = typeof section.title === "string" && section.title ? section.title : "제목 없음";
+    const filled = textLength(section.content) > 0;
+    const checklist: ReviewCheck[] = [
+      {
+        id: "not_empty",
+        label: "내용이 작성되어 있어야 합니다.",
+        status: filled ? "pass" : "fail",
+        ...(!filled && { message: `${title} 섹션이 비어 있습니다.` }),
+      },
+    ];
+    sections.push({
+      key: String(section.id),
+      title,
+      source: "content",
+      score: scoreOf(checklist),
+      checklist,
+    });
+  }
+
+  // 제출서류는 첨부 여부를 알 수 없으므로 계획서 본문에 언급되어 있는지만 확인
+  // (언급되지 않은 서류는 경고, 별도로 준비했는지 확인 필요)
+  const planText = normalizeDocumentName(
+    collectText([doc.data.sections, doc.content.sections]).join(" ")
+  );
+  const requiredDocuments: { name: string; status: ReviewStatus; message?: string }[] = (
+    Array.isArray(grant?.requiredDocuments)
+      ? grant!.requiredDocuments.filter(
+          (item): item is string => typeof item === "string" && item.trim().length > 0
+        )
+      : []
+  ).map((name) => {
+    const normalized = normalizeDocumentName(name);
+    const mentioned = normalized.length > 0 && planText.includes(normalized);
+    return {
+      name,
+      status: mentioned ? "pass" : "warning",
+      ...(!mentioned && {
+        message: "사업계획서에 언급되어 있지 않습니다. 별도로 준비했는지 확인해주세요.",
+      }),
+    };
+  });
+
+  const checks = [...sections.flatMap((section) => section.checklist), ...requiredDocuments];
+
+  return {
+    businessPlanId: businessPlan.id,
+    grantId: grant?.id ?? null,
+    grantTitle: grant?.title ?? null,
+    hasTemplate: templateSections !== null,
+    score: sections.length
+      ? Math.round(sections.reduce((sum, section) => sum + section.score, 0) / sections.length)
+      : 0,
+    summary: {
+      pass: checks.filter((check) => check.status === "pass").length,
+      warning: checks.filter((check) => check.status === "warning").length,
+      fail: checks.filter((check) => check.status === "fail").length,
+    },
+    sections,
+    requiredDocuments,
+  };
+};
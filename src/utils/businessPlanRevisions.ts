@@ -0,0 +1,240 @@
+import { BusinessPlan, BusinessPlanRevision, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+type TransactionClient = Prisma.TransactionClient;
+
+// 리비전에 기록되는 필드
+export const REVISION_FIELDS = ["title", "content", "data", "status"] as const;
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+// 보존 정책 (환경변수로 조정, 0 이면 제한 없음)
+const getRetentionLimit = () =>
+  parseInt(process.env.BUSINESS_PLAN_REVISION_LIMIT || "50", 10);
+const getRetentionDays = () =>
+  parseInt(process.env.BUSINESS_PLAN_REVISION_MAX_AGE_DAYS || "0", 10);
+
+const toJsonInput = (value: Prisma.JsonValue | null) =>
+  value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// 두 사업계획서 상태 사이에 변경된 필드 목록
+export const getChangedFields = (
+  before: Pick<BusinessPlan, RevisionField>,
+  after: Pick<BusinessPlan, RevisionField>
+): RevisionField[] =>
+  REVISION_FIELDS.filter((field) => !isSameValue(before[field], after[field]));
+
+// 보존 한도를 넘은 오래된 리비전 정리 (최신 리비전은 항상 유지)
+const pruneRevisions = async (tx: TransactionClient, businessPlanId: string) => {
+  const limit = getRetentionLimit();
+  const maxAgeDays = getRetentionDays();
+
+  if (limit > 0) {
+    const stale = await tx.businessPlanRevision.findMany({
+      where: { businessPlanId },
+      orderBy: { revision: "desc" },
+      skip: limit,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await tx.businessPlanRevision.deleteMany({
+        where: { id: { in: stale.map((r) => r.id) } },
+      });
+    }
+  }
+
+  if (maxAgeDays > 0) {
+    const latest = await tx.businessPlanRevision.findFirst({
+      where: { businessPlanId },
+      orderBy: { revision: "desc" },
+      select: { revision: true },
+    });
+    await tx.businessPlanRevision.deleteMany({
+      where: {
+        businessPlanId,
+        createdAt: { lt: new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000) },
+        ...(latest && { revision: { lt: latest.revision } }),
+      },
+    });
+  }
+};
+
+// 사업계획서의 현재 상태를 새 리비전으로 기록
+export const recordRevision = async (
+  tx: TransactionClient,
+  plan: BusinessPlan,
+  options: {
+    authorId: string | null;
+    changedFields: RevisionField[];
+    restoredFromRevision?: number;
+  }
+) => {
+  const latest = await tx.businessPlanRevision.findFirst({
+    where: { businessPlanId: plan.id },
+    orderBy: { revision: "desc" },
+    select: { revision: true },
+  });
+
+  const revision = await tx.businessPlanRevision.create({
+    data: {
+      businessPlanId: plan.id,
+      revision: (latest?.revision ?? 0) + 1,
+      title: plan.title,
+      content: toJsonInput(plan.content),
+      data: toJsonInput(plan.data),
+      status: plan.status,
+      changedFields: options.changedFields,
+      authorId: options.authorId,
+      restoredFromRevision: options.restoredFromRevision ?? null,
+    },
+  });
+
+  await pruneRevisions(tx, plan.id);
+
+  return revision;
+};
+
+// 리비전 기록 전 기준점 확보 (리비전 기능 도입 이전에 만든 사업계획서 대비)
+export const ensureBaselineRevision = async (
+  tx: TransactionClient,
+  plan: BusinessPlan
+) => {
+  const count = await tx.businessPlanRevision.count({
+    where: { businessPlanId: plan.id },
+  });
+
+  if (count === 0) {
+    await recordRevision(tx, plan, {
+      authorId: plan.userId,
+      changedFields: [...REVISION_FIELDS],
+    });
+  }
+};
+
+// 리비전 목록 응답 형식 (본문 제외)
+export const formatRevisionSummary = (revision: BusinessPlanRevision) => ({
+  id: revision.id,
+  revision: revision.revision,
+  title: revision.title,
+  status: revision.status,
+  changedFields: revision.changedFields,
+  authorId: revision.authorId,
+  restoredFromRevision: revision.restoredFromRevision,
+  createdAt: revision.createdAt,
+});
+
+// 리비전 상세 응답 형식
+export const formatRevision = (revision: BusinessPlanRevision) => ({
+  ...formatRevisionSummary(revision),
+  content: revision.content,
+  data: revision.data ?? null,
+});
+
+// 리비전 번호로 조회
+export const findRevision = (businessPlanId: string, revision: number) =>
+  prisma.businessPlanRevision.findUnique({
+    where: { businessPlanId_revision: { businessPlanId, revision } },
+  });
+
+// 두 값 사이의 변경 경로 목록 (예: "subSections[0].content.problems[1]")
+const diffPaths = (a: unknown, b: unknown, path: string, out: string[]) => {
+  if (isSameValue(a, b)) return;
+
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      diffPaths(a[i], b[i], `${path}[${i}]`, out);
+    }
+    return;
+  }
+
+  if (isObject(a) && isObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      diffPaths(a[key], b[key], path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+
+  out.push(path || "(root)");
+};
+
+type SectionChange = {
+  source: "data" | "content";
+  key: string;
+  change: "added" | "removed" | "modified";
+  changedPaths: string[];
+  from: unknown;
+  to: unknown;
+};
+
+// 섹션 맵 추출: data.sections 는 키 기반 객체, content.sections 는 id 기반 배열
+const getDataSections = (data: Prisma.JsonValue | null) => {
+  const sections = (data as any)?.sections;
+  return sections && typeof sections === "object" && !Array.isArray(sections)
+    ? (sections as Record<string, unknown>)
+    : {};
+};
+
+const getContentSections = (content: Prisma.JsonValue | null) => {
+  const sections = (content as any)?.sections;
+  return Array.isArray(sections)
+    ? Object.fromEntries(
+        sections
+          .filter((section: any) => section && section.id)
+          .map((section: any) => [String(section.id), section])
+      )
+    : {};
+};
+
+const diffSectionMaps = (
+  source: SectionChange["source"],
+  from: Record<string, unknown>,
+  to: Record<string, unknown>
+): SectionChange[] => {
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])];
+
+  return keys.flatMap((key): SectionChange[] => {
+    const before = from[key];
+    const after = to[key];
+    if (isSameValue(before, after)) return [];
+
+    const changedPaths: string[] = [];
+    diffPaths(before, after, "", changedPaths);
+
+    return [
+      {
+        source,
+        key,
+        change: before === undefined ? "added" : after === undefined ? "removed" : "modified",
+        changedPaths,
+        from: before ?? null,
+        to: after ?? null,
+      },
+    ];
+  });
+};
+
+// 두 리비전의 섹션 단위 비교
+export const diffRevisions = (
+  from: BusinessPlanRevision,
+  to: BusinessPlanRevision
+) => ({
+  from: from.revision,
+  to: to.revision,
+  title: from.title === to.title ? null : { from: from.title, to: to.title },
+  status: from.status === to.status ? null : { from: from.status, to: to.status },
+  sections: [
+    ...diffSectionMaps("data", getDataSections(from.data), getDataSections(to.data)),
+    ...diffSectionMaps(
+      "content",
+      getContentSections(from.content),
+      getContentSections(to.content)
+    ),
+  ],
+});
@@ -0,0 +1,312 @@
+import { Prisma } from "@prisma/client";
+import { FieldError, ValidationError } from "../middlewares/error.middleware";
+import { BusinessPlanContent, BusinessPlanData } from "../types";
+
+// 현재 content/data 스키마 버전 (schemaVersion 이 없으면 0 으로 간주)
+export const CONTENT_SCHEMA_VERSION = 1;
+export const DATA_SCHEMA_VERSION = 1;
+
+type JsonRecord = Record<string, any>;
+
+const isPlainObject = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isScalar = (value: unknown) =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+const isFlatRecord = (value: unknown) =>
+  isPlainObject(value) && Object.values(value).every(isScalar);
+
+// 버전별 마이그레이션 (키: 이전 버전 → 다음 버전)
+const CONTENT_MIGRATIONS: Record<number, (content: JsonRecord) => JsonRecord> = {
+  // 0 → 1: schemaVersion 도입, sections 기본값, 숫자 id 를 문자열로
+  0: (content) => ({
+    ...content,
+    schemaVersion: 1,
+    sections: Array.isArray(content.sections)
+      ? content.sections.map((section: unknown) =>
+          isPlainObject(section) && typeof section.id === "number"
+            ? { ...section, id: String(section.id) }
+            : section
+        )
+      : content.sections ?? [],
+  }),
+};
+
+const DATA_MIGRATIONS: Record<number, (data: JsonRecord) => JsonRecord> = {
+  // 0 → 1: schemaVersion 도입, sections 기본값
+  0: (data) => ({
+    ...data,
+    schemaVersion: 1,
+    sections: data.sections ?? {},
+  }),
+};
+
+const migrate = (
+  value: unknown,
+  currentVersion: number,
+  migrations: Record<number, (value: JsonRecord) => JsonRecord>
+): unknown => {
+  if (value === null || value === undefined) {
+    return migrate({}, currentVersion, migrations);
+  }
+  if (!isPlainObject(value)) return value;
+
+  let migrated = value;
+  let version = migrated.schemaVersion ?? 0;
+
+  // 형식이 잘못되었거나 더 높은 버전이면 그대로 두고 검증에서 오류 처리
+  while (Number.isInteger(version) && version < currentVersion && migrations[version]) {
+    migrated = migrations[version]!(migrated);
+    version = migrated.schemaVersion;
+  }
+
+  return migrated;
+};
+
+// 이전 버전 content/data 를 현재 스키마 버전으로 변환 (이미 최신이면 그대로)
+export const migrateBusinessPlanContent = (content: unknown) =>
+  migrate(content, CONTENT_SCHEMA_VERSION, CONTENT_MIGRATIONS);
+
+export const migrateBusinessPlanData = (data: unknown) =>
+  migrate(data, DATA_SCHEMA_VERSION, DATA_MIGRATIONS);
+
+const checkSchemaVersion = (
+  value: JsonRecord,
+  path: string,
+  currentVersion: number,
+  errors: FieldError[]
+) => {
+  if (value.schemaVersion !== currentVersion) {
+    errors.push({
+      field: `${path}.schemaVersion`,
+      message: `지원하지 않는 스키마 버전입니다. (현재 버전: ${currentVersion})`,
+    });
+  }
+};
+
+const checkUnknownKeys = (
+  value: JsonRecord,
+  path: string,
+  known: string[],
+  errors: FieldError[]
+) => {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      errors.push({ field: `${path}.${key}`, message: "알 수 없는 필드입니다." });
+    }
+  }
+};
+
+const checkOptionalString = (
+  value: JsonRecord,
+  key: string,
+  path: string,
+  errors: FieldError[]
+) => {
+  if (value[key] !== undefined && typeof value[key] !== "string") {
+    errors.push({ field: `${path}.${key}`, message: `${key} 는 문자열이어야 합니다.` });
+  }
+};
+
+// 항목 값: 단일 값, 단일 값 객체, 또는 그 배열 (표 형태)
+const checkValueMap = (value: unknown, path: string, errors: FieldError[]) => {
+  if (!isPlainObject(value)) {
+    errors.push({ field: path, message: "객체여야 합니다." });
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = `${path}.${key}`;
+
+    if (isScalar(item) || isFlatRecord(item)) continue;
+
+    if (Array.isArray(item)) {
+      item.forEach((element, i) => {
+        if (!isScalar(element) && !isFlatRecord(element)) {
+          errors.push({
+            field: `${itemPath}[${i}]`,
+            message: "배열 항목은 문자열·숫자 또는 한 단계 객체여야 합니다.",
+          });
+        }
+      });
+      continue;
+    }
+
+    errors.push({
+      field: itemPath,
+      message: "값은 문자열·숫자, 한 단계 객체 또는 그 배열이어야 합니다.",
+    });
+  }
+};
+
+// content 검증 (필드 단위 오류 목록 반환)
+export const validateBusinessPlanContent = (
+  content: unknown,
+  path: string = "content"
+): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  if (!isPlainObject(content)) {
+    return [{ field: path, message: "content 는 객체여야 합니다." }];
+  }
+
+  checkSchemaVersion(content, path, CONTENT_SCHEMA_VERSION, errors);
+  checkUnknownKeys(content, path, ["schemaVersion", "sections"], errors);
+
+  if (!Array.isArray(content.sections)) {
+    errors.push({ field: `${path}.sections`, message: "sections 는 배열이어야 합니다." });
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  content.sections.forEach((section: unknown, i: number) => {
+    const sectionPath = `${path}.sections[${i}]`;
+
+    if (!isPlainObject(section)) {
+      errors.push({ field: sectionPath, message: "섹션은 객체여야 합니다." });
+      return;
+    }
+
+    checkUnknownKeys(section, sectionPath, ["id", "title", "content"], errors);
+
+    if (typeof section.id !== "string" || !section.id) {
+      errors.push({ field: `${sectionPath}.id`, message: "id 는 필수 문자열입니다." });
+    } else if (ids.has(section.id)) {
+      errors.push({ field: `${sectionPath}.id`, message: "중복된 섹션 id 입니다." });
+    } else {
+      ids.add(section.id);
+    }
+
+    for (const key of ["title", "content"]) {
+      if (typeof section[key] !== "string") {
+        errors.push({ field: `${sectionPath}.${key}`, message: `${key} 는 문자열이어야 합니다.` });
+      }
+    }
+  });
+
+  return errors;
+};
+
+// data 검증 (필드 단위 오류 목록 반환, 최상위의 그 외 필드는 허용)
+export const validateBusinessPlanData = (
+  data: unknown,
+  path: string = "data"
+): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  if (!isPlainObject(data)) {
+    return [{ field: path, message: "data 는 객체여야 합니다." }];
+  }
+
+  checkSchemaVersion(data, path, DATA_SCHEMA_VERSION, errors);
+  checkOptionalString(data, "documentTitle", path, errors);
+
+  if (
+    data.sectionOrder !== undefined &&
+    (!Array.isArray(data.sectionOrder) ||
+      data.sectionOrder.some((key: unknown) => typeof key !== "string"))
+  ) {
+    errors.push({
+      field: `${path}.sectionOrder`,
+      message: "sectionOrder 는 문자열 배열이어야 합니다.",
+    });
+  }
+
+  if (!isPlainObject(data.sections)) {
+    errors.push({ field: `${path}.sections`, message: "sections 는 객체여야 합니다." });
+    return errors;
+  }
+
+  for (const [key, section] of Object.entries(data.sections)) {
+    const sectionPath = `${path}.sections.${key}`;
+
+    if (!isPlainObject(section)) {
+      errors.push({ field: sectionPath, message: "섹션은 객체여야 합니다." });
+      continue;
+    }
+
+    checkUnknownKeys(section, sectionPath, ["title", "data", "subSections"], errors);
+    checkOptionalString(section, "title", sectionPath, errors);
+
+    if (section.data !== undefined) {
+      checkValueMap(section.data, `${sectionPath}.data`, errors);
+    }
+
+    if (section.subSections === undefined) continue;
+    if (!Array.isArray(section.subSections)) {
+      errors.push({
+        field: `${sectionPath}.subSections`,
+        message: "subSections 는 배열이어야 합니다.",
+      });
+      continue;
+    }
+
+    section.subSections.forEach((subSection: unknown, i: number) => {
+      const subPath = `${sectionPath}.subSections[${i}]`;
+
+      if (!isPlainObject(subSection)) {
+        errors.push({ field: subPath, message: "하위 섹션은 객체여야 합니다." });
+        return;
+      }
+
+      checkUnknownKeys(subSection, subPath, ["subTitle", "content"], errors);
+      checkOptionalString(subSection, "subTitle", subPath, errors);
+
+      if (subSection.content !== undefined) {
+        checkValueMap(subSection.content, `${subPath}.content`, errors);
+      }
+    });
+  }
+
+  return errors;
+};
+
+// 저장 전 content/data 를 최신 버전으로 변환하고 검증 (실패 시 필드 단위 400)
+// 전달하지 않은 필드(undefined)는 건너뜀
+export const prepareBusinessPlanJson = (input: {
+  content?: unknown;
+  data?: unknown;
+}) => {
+  const content =
+    input.content === undefined ? undefined : migrateBusinessPlanContent(input.content);
+  const data = input.data === undefined ? undefined : migrateBusinessPlanData(input.data);
+
+  const errors = [
+    ...(content === undefined ? [] : validateBusinessPlanContent(content)),
+    ...(data === undefined ? [] : validateBusinessPlanData(data)),
+  ];
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  return {
+    content: content as Prisma.InputJsonObject | undefined,
+    data: data as Prisma.InputJsonObject | undefined,
+  };
+};
+
+// 저장된 content 를 최신 스키마로 읽기 (형식이 잘못되었으면 400)
+export const toBusinessPlanContent = (value: unknown): BusinessPlanContent => {
+  const content = migrateBusinessPlanContent(value);
+  const errors = validateBusinessPlanContent(content);
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors, "사업계획서 content 형식이 올바르지 않습니다.");
+  }
+
+  return content as BusinessPlanContent;
+};
+
+// 저장된 data 를 최신 스키마로 읽기 (형식이 잘못되었으면 400)
+export const toBusinessPlanData = (value: unknown): BusinessPlanData => {
+  const data = migrateBusinessPlanData(value);
+  const errors = validateBusinessPlanData(data);
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors, "사업계획서 data 형식이 올바르지 않습니다.");
+  }
+
+  return data as BusinessPlanData;
+};
@@ -0,0 +1,306 @@
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import {
+  migrateBusinessPlanContent,
+  migrateBusinessPlanData,
+} from "./businessPlanSchema";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "../middlewares/error.middleware";
+
+// 내보내기가 사용하는 기본 data.sections 키 (출력 순서, 지원사업 양식이 없을 때)
+export const BUSINESS_PLAN_SECTION_KEYS = [
+  "generalStatus",
+  "summary",
+  "problem",
+  "solution",
+  "scaleup",
+  "team",
+] as const;
+
+export type SectionSource = "content" | "data";
+
+// 편집 대상 문서 (content.sections 는 id 기반 배열, data.sections 는 키 기반 객체)
+export interface PlanDocument {
+  content: { sections: any[]; [key: string]: unknown };
+  data: { sections: Record<string, any>; [key: string]: unknown };
+}
+
+type FoundSection =
+  | { source: "data"; key: string; section: any }
+  | { source: "content"; index: number; section: any };
+
+const SECTION_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// data 섹션 출력 순서 (sectionOrder → 기본 섹션 키 → 그 외 키)
+// MySQL JSON 은 객체 키를 정렬해 저장하므로 순서는 sectionOrder 배열로만 유지됨
+export const getDataSectionOrder = (data: {
+  sections: Record<string, unknown>;
+  sectionOrder?: unknown;
+}) => {
+  const saved = Array.isArray(data.sectionOrder) ? data.sectionOrder : [];
+  return [
+    ...new Set(
+      [...saved, ...BUSINESS_PLAN_SECTION_KEYS, ...Object.keys(data.sections)].filter(
+        (key): key is string => typeof key === "string" && hasOwn(data.sections, key)
+      )
+    ),
+  ];
+};
+
+// 삽입 위치 보정 (생략 시 맨 뒤)
+const toInsertPosition = (position: number | undefined, length: number) =>
+  position === undefined ? length : Math.min(Math.max(position, 0), length);
+
+// 순서 배열이 기존 항목의 순열인지 확인
+const assertPermutation = <T>(order: T[], current: T[]) => {
+  const sorted = (list: T[]) => list.map(String).sort();
+  if (
+    order.length !== current.length ||
+    new Set(order).size !== order.length ||
+    sorted(order).join("\u0000") !== sorted(current).join("\u0000")
+  ) {
+    throw new BadRequestError(
+      "order 는 현재 항목을 하나씩 모두 포함해야 합니다."
+    );
+  }
+};
+
+// 사업계획서 content/data 의 편집용 복사본 (최신 스키마 버전으로 변환)
+export const toPlanDocument = (plan: {
+  content: Prisma.JsonValue | null;
+  data: Prisma.JsonValue | null;
+}): PlanDocument => {
+  const migratedContent = migrateBusinessPlanContent(plan.content);
+  const migratedData = migrateBusinessPlanData(plan.data);
+  const content: Record<string, any> = isPlainObject(migratedContent)
+    ? clone(migratedContent)
+    : {};
+  const data: Record<string, any> = isPlainObject(migratedData)
+    ? clone(migratedData)
+    : {};
+
+  return {
+    content: {
+      ...content,
+      sections: Array.isArray(content.sections) ? content.sections : [],
+    },
+    data: {
+      ...data,
+      sections: isPlainObject(data.sections) ? data.sections : {},
+    },
+  };
+};
+
+// 섹션 조회: data.sections 의 키(generalStatus 등)가 우선, 그 외에는 content.sections 의 id
+export const findSection = (doc: PlanDocument, sectionKey: string): FoundSection => {
+  if (hasOwn(doc.data.sections, sectionKey)) {
+    return { source: "data", key: sectionKey, section: doc.data.sections[sectionKey] };
+  }
+
+  const index = doc.content.sections.findIndex(
+    (section) => isPlainObject(section) && String(section.id) === sectionKey
+  );
+  if (index >= 0) {
+    return { source: "content", index, section: doc.content.sections[index] };
+  }
+
+  throw new NotFoundError("섹션을 찾을 수 없습니다.");
+};
+
+const findDataSection = (doc: PlanDocument, sectionKey: string) => {
+  const found = findSection(doc, sectionKey);
+  if (found.source !== "data") {
+    throw new BadRequestError("subSections 는 data 섹션에서만 사용할 수 있습니다.");
+  }
+  if (!Array.isArray(found.section.subSections)) {
+    found.section.subSections = [];
+  }
+  return found.section as { subSections: any[] };
+};
+
+const assertSubSectionIndex = (subSections: unknown[], index: number) => {
+  if (!Number.isInteger(index) || index < 0 || index >= subSections.length) {
+    throw new NotFoundError("하위 섹션을 찾을 수 없습니다.");
+  }
+};
+
+export interface SectionInput {
+  key?: string;
+  id?: string;
+  title?: string;
+  content?: string;
+  data?: Record<string, unknown>;
+  subSections?: unknown[];
+  position?: number;
+}
+
+// 섹션 추가: key 가 있으면 data.sections, 없으면 content.sections 에 추가
+export const addSection = (doc: PlanDocument, input: SectionInput) => {
+  if (input.key !== undefined) {
+    if (!SECTION_KEY_PATTERN.test(input.key)) {
+      throw new BadRequestError("key 는 영문자로 시작하는 영문/숫자/밑줄 조합이어야 합니다.");
+    }
+    if (hasOwn(doc.data.sections, input.key)) {
+      throw new ConflictError("이미 존재하는 섹션입니다.");
+    }
+
+    const section = {
+      title: input.title ?? input.key,
+      ...(input.data !== undefined && { data: input.data }),
+      subSections: input.subSections ?? [],
+    };
+    doc.data.sections[input.key] = section;
+    return { source: "data" as const, key: input.key, section };
+  }
+
+  const id = input.id ?? randomUUID();
+  const exists =
+    hasOwn(doc.data.sections, id) ||
+    doc.content.sections.some((section) => String(section?.id) === id);
+  if (exists) {
+    throw new ConflictError("이미 존재하는 섹션 id 입니다.");
+  }
+
+  const section = { id, title: input.title ?? "", content: input.content ?? "" };
+  doc.content.sections.splice(
+    toInsertPosition(input.position, doc.content.sections.length),
+    0,
+    section
+  );
+  return { source: "content" as const, key: id, section };
+};
+
+// 섹션 수정 (전달한 필드만 교체)
+export const updateSection = (
+  doc: PlanDocument,
+  sectionKey: string,
+  patch: Omit<SectionInput, "key" | "id" | "position">
+) => {
+  const found = findSection(doc, sectionKey);
+
+  if (found.source === "content") {
+    if (patch.data !== undefined || patch.subSections !== undefined) {
+      throw new BadRequestError("content 섹션은 title, content 만 수정할 수 있습니다.");
+    }
+    if (patch.title !== undefined) found.section.title = patch.title;
+    if (patch.content !== undefined) found.section.content = patch.content;
+    return found.section;
+  }
+
+  if (patch.content !== undefined) {
+    throw new BadRequestError("data 섹션은 title, data, subSections 만 수정할 수 있습니다.");
+  }
+  if (patch.title !== undefined) found.section.title = patch.title;
+  if (patch.data !== undefined) found.section.data = patch.data;
+  if (patch.subSections !== undefined) found.section.subSections = patch.subSections;
+  return found.section;
+};
+
+// 섹션 삭제
+export const removeSection = (doc: PlanDocument, sectionKey: string) => {
+  const found = findSection(doc, sectionKey);
+
+  if (found.source === "data") {
+    delete doc.data.sections[found.key];
+    if (Array.isArray(doc.data.sectionOrder)) {
+      doc.data.sectionOrder = doc.data.sectionOrder.filter((key) => key !== found.key);
+    }
+  } else {
+    doc.content.sections.splice(found.index, 1);
+  }
+};
+
+// 섹션 순서 변경 (content: id 순서, data: sectionOrder 에 키 순서 저장)
+export const reorderSections = (
+  doc: PlanDocument,
+  source: SectionSource,
+  order: string[]
+) => {
+  if (source === "data") {
+    assertPermutation(order, Object.keys(doc.data.sections));
+    doc.data.sectionOrder = order;
+    return;
+  }
+
+  const byId = new Map(
+    doc.content.sections.map((section) => [String(section?.id), section])
+  );
+  assertPermutation(order, [...byId.keys()]);
+  doc.content.sections = order.map((id) => byId.get(id));
+};
+
+export interface SubSectionInput {
+  subTitle?: string;
+  content?: Record<string, unknown>;
+  position?: number;
+}
+
+// 하위 섹션 추가
+export const addSubSection = (
+  doc: PlanDocument,
+  sectionKey: string,
+  input: SubSectionInput
+) => {
+  const section = findDataSection(doc, sectionKey);
+  const subSection = { subTitle: input.subTitle ?? "", content: input.content ?? {} };
+  const index = toInsertPosition(input.position, section.subSections.length);
+
+  section.subSections.splice(index, 0, subSection);
+  return { index, subSection };
+};
+
+// 하위 섹션 수정 (전달한 필드만 교체)
+export const updateSubSection = (
+  doc: PlanDocument,
+  sectionKey: string,
+  index: number,
+  patch: Omit<SubSectionInput, "position">
+) => {
+  const section = findDataSection(doc, sectionKey);
+  assertSubSectionIndex(section.subSections, index);
+
+  const subSection = isPlainObject(section.subSections[index])
+    ? section.subSections[index]
+    : {};
+  if (patch.subTitle !== undefined) subSection.subTitle = patch.subTitle;
+  if (patch.content !== undefined) subSection.content = patch.content;
+
+  section.subSections[index] = subSection;
+  return subSection;
+};
+
+// 하위 섹션 삭제
+export const removeSubSection = (
+  doc: PlanDocument,
+  sectionKey: string,
+  index: number
+) => {
+  const section = findDataSection(doc, sectionKey);
+  assertSubSectionIndex(section.subSections, index);
+  section.subSections.splice(index, 1);
+};
+
+// 하위 섹션 순서 변경 (기존 인덱스의 새 순서)
+export const reorderSubSections = (
+  doc: PlanDocument,
+  sectionKey: string,
+  order: number[]
+) => {
+  const section = findDataSection(doc, sectionKey);
+  assertPermutation(
+    order,
+    section.subSections.map((_, i) => i)
+  );
+  section.subSections = order.map((i) => section.subSections[i]);
+};
@@ -0,0 +1,110 @@
+import { BusinessPlanStatusChange, Prisma } from "@prisma/client";
+import { BadRequestError } from "../middlewares/error.middleware";
+import { BusinessPlanStatus } from "../types";
+
+export const BUSINESS_PLAN_STATUSES: BusinessPlanStatus[] = [
+  "draft",
+  "in_review",
+  "completed",
+  "submitted",
+  "selected",
+  "rejected",
+];
+
+// 상태별로 옮겨갈 수 있는 상태
+// - 제출 전에는 이전 단계로 되돌릴 수 있음
+// - 선정/탈락은 잘못 기록한 경우에만 서로 정정
+export const BUSINESS_PLAN_STATUS_TRANSITIONS: Record<BusinessPlanStatus, BusinessPlanStatus[]> = {
+  draft: ["in_review"],
+  in_review: ["draft", "completed"],
+  completed: ["in_review", "submitted"],
+  submitted: ["selected", "rejected"],
+  selected: ["rejected"],
+  rejected: ["selected"],
+};
+
+// 작성이 끝난 상태 (지원사업 양식의 필수 항목까지 검사)
+export const COMPLETED_STATUSES: BusinessPlanStatus[] = [
+  "completed",
+  "submitted",
+  "selected",
+  "rejected",
+];
+
+// 지원 결과 상태
+export const APPLICATION_RESULT_STATUSES: BusinessPlanStatus[] = ["selected", "rejected"];
+
+// 지원 이후 상태 (마이페이지 지원 결과에 표시)
+export const APPLIED_STATUSES: BusinessPlanStatus[] = ["submitted", ...APPLICATION_RESULT_STATUSES];
+
+export const isBusinessPlanStatus = (value: unknown): value is BusinessPlanStatus =>
+  typeof value === "string" && BUSINESS_PLAN_STATUSES.includes(value as BusinessPlanStatus);
+
+export const getAllowedTransitions = (status: string): BusinessPlanStatus[] =>
+  isBusinessPlanStatus(status) ? BUSINESS_PLAN_STATUS_TRANSITIONS[status] : [];
+
+// 허용되지 않은 상태 전환이면 400
+export const assertStatusTransition = (from: string, to: unknown) => {
+  if (!isBusinessPlanStatus(to)) {
+    throw new BadRequestError(
+      `상태는 ${BUSINESS_PLAN_STATUSES.join(", ")} 중 하나여야 합니다.`
+    );
+  }
+
+  const allowed = getAllowedTransitions(from);
+  if (!allowed.includes(to)) {
+    throw new BadRequestError(
+      allowed.length > 0
+        ? `${from} 상태에서는 ${allowed.join(", ")} 상태로만 변경할 수 있습니다.`
+        : `${from} 상태에서는 상태를 변경할 수 없습니다.`
+    );
+  }
+};
+
+// 상태 변경 내역 기록 (저장과 같은 트랜잭션)
+export const recordStatusChange = (
+  tx: Prisma.TransactionClient,
+  change: {
+    businessPlanId: string;
+    fromStatus: string;
+    toStatus: string;
+    note?: string | null;
+    authorId: string;
+  }
+) => tx.businessPlanStatusChange.create({ data: change });
+
+// 상태 변경 내역 응답 형식
+export const formatStatusChange = (change: BusinessPlanStatusChange) => ({
+  id: change.id,
+  fromStatus: change.fromStatus,
+  toStatus: change.toStatus,
+  note: change.note,
+  authorId: change.authorId,
+  createdAt: change.createdAt,
+});
+
+// 상태 변경 내역에서 지원 결과 요약 (최근 제출/결과 기록 시각, 결과 메모)
+export const summarizeApplication = (
+  status: string,
+  changes: Pick<BusinessPlanStatusChange, "toStatus" | "note" | "createdAt">[]
+) => {
+  const latest = (statuses: BusinessPlanStatus[]) =>
+    changes
+      .filter((change) => statuses.includes(change.toStatus as BusinessPlanStatus))
+      .reduce<(typeof changes)[number] | null>(
+        (found, change) => (!found || change.createdAt > found.createdAt ? change : found),
+        null
+      );
+
+  const submitted = latest(["submitted"]);
+  const result = APPLICATION_RESULT_STATUSES.includes(status as BusinessPlanStatus)
+    ? latest(APPLICATION_RESULT_STATUSES)
+    : null;
+
+  return {
+    result: result ? (status as BusinessPlanStatus) : null,
+    submittedAt: submitted?.createdAt ?? null,
+    resultRecordedAt: result?.createdAt ?? null,
+    resultNote: result?.note ?? null,
+  };
+};
@@ -0,0 +1,289 @@
+import { BusinessPlanTemplate } from "@prisma/client";
+import { prisma } from "./prisma";
+import { FieldError, ValidationError } from "../middlewares/error.middleware";
+import {
+  BusinessPlanStatus,
+  BusinessPlanTemplateSection,
+} from "../types";
+import { COMPLETED_STATUSES } from "./businessPlanStatus";
+
+type JsonRecord = Record<string, any>;
+
+const SECTION_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+const isPlainObject = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const SECTION_KEYS = ["key", "title", "required", "maxLength", "subSections", "fields"];
+const FIELD_KEYS = ["key", "label", "required", "maxLength"];
+
+const checkUnknownKeys = (
+  value: JsonRecord,
+  path: string,
+  known: string[],
+  errors: FieldError[]
+) => {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      errors.push({ field: `${path}.${key}`, message: "알 수 없는 필드입니다." });
+    }
+  }
+};
+
+const isPositiveInteger = (value: unknown) =>
+  Number.isInteger(value) && (value as number) > 0;
+
+// 양식 섹션 목록 검증 (관리자 입력, 필드 단위 오류 목록 반환)
+export const validateTemplateSections = (
+  sections: unknown,
+  path: string = "sections"
+): FieldError[] => {
+  if (!Array.isArray(sections) || sections.length === 0) {
+    return [{ field: path, message: "sections 는 비어있지 않은 배열이어야 합니다." }];
+  }
+
+  const errors: FieldError[] = [];
+  const keys = new Set<string>();
+
+  sections.forEach((section: unknown, i: number) => {
+    const sectionPath = `${path}[${i}]`;
+
+    if (!isPlainObject(section)) {
+      errors.push({ field: sectionPath, message: "섹션은 객체여야 합니다." });
+      return;
+    }
+
+    checkUnknownKeys(section, sectionPath, SECTION_KEYS, errors);
+
+    if (typeof section.key !== "string" || !SECTION_KEY_PATTERN.test(section.key)) {
+      errors.push({
+        field: `${sectionPath}.key`,
+        message: "key 는 영문자로 시작하는 영문/숫자/밑줄 조합이어야 합니다.",
+      });
+    } else if (keys.has(section.key)) {
+      errors.push({ field: `${sectionPath}.key`, message: "중복된 섹션 key 입니다." });
+    } else {
+      keys.add(section.key);
+    }
+
+    if (typeof section.title !== "string" || !section.title.trim()) {
+      errors.push({ field: `${sectionPath}.title`, message: "title 은 필수 문자열입니다." });
+    }
+    if (section.required !== undefined && typeof section.required !== "boolean") {
+      errors.push({ field: `${sectionPath}.required`, message: "required 는 true/false 여야 합니다." });
+    }
+    if (section.maxLength !== undefined && !isPositiveInteger(section.maxLength)) {
+      errors.push({ field: `${sectionPath}.maxLength`, message: "maxLength 는 1 이상의 정수여야 합니다." });
+    }
+    if (
+      section.subSections !== undefined &&
+      (!Array.isArray(section.subSections) ||
+        !section.subSections.every((title: unknown) => typeof title === "string"))
+    ) {
+      errors.push({
+        field: `${sectionPath}.subSections`,
+        message: "subSections 는 문자열 배열이어야 합니다.",
+      });
+    }
+
+    if (section.fields === undefined) return;
+    if (!Array.isArray(section.fields)) {
+      errors.push({ field: `${sectionPath}.fields`, message: "fields 는 배열이어야 합니다." });
+      return;
+    }
+
+    const fieldKeys = new Set<string>();
+    section.fields.forEach((field: unknown, j: number) => {
+      const fieldPath = `${sectionPath}.fields[${j}]`;
+
+      if (!isPlainObject(field)) {
+        errors.push({ field: fieldPath, message: "항목은 객체여야 합니다." });
+        return;
+      }
+
+      checkUnknownKeys(field, fieldPath, FIELD_KEYS, errors);
+      if (typeof field.key !== "string" || !field.key.trim()) {
+        errors.push({ field: `${fieldPath}.key`, message: "key 는 필수 문자열입니다." });
+      } else if (fieldKeys.has(field.key)) {
+        errors.push({ field: `${fieldPath}.key`, message: "중복된 항목 key 입니다." });
+      } else {
+        fieldKeys.add(field.key);
+      }
+      if (field.label !== undefined && typeof field.label !== "string") {
+        errors.push({ field: `${fieldPath}.label`, message: "label 은 문자열이어야 합니다." });
+      }
+      if (field.required !== undefined && typeof field.required !== "boolean") {
+        errors.push({ field: `${fieldPath}.required`, message: "required 는 true/false 여야 합니다." });
+      }
+      if (field.maxLength !== undefined && !isPositiveInteger(field.maxLength)) {
+        errors.push({ field: `${fieldPath}.maxLength`, message: "maxLength 는 1 이상의 정수여야 합니다." });
+      }
+    });
+  });
+
+  return errors;
+};
+
+// 양식 응답 형식
+export const formatBusinessPlanTemplate = (template: BusinessPlanTemplate) => ({
+  id: template.id,
+  grantId: template.grantId,
+  name: template.name,
+  sections: template.sections as unknown as BusinessPlanTemplateSection[],
+  createdAt: template.createdAt,
+  updatedAt: template.updatedAt,
+});
+
+// 지원사업 양식의 섹션 목록 (지원사업이 없거나 양식이 없으면 null)
+export const findTemplateSections = async (
+  grantId: string | null | undefined
+): Promise<BusinessPlanTemplateSection[] | null> => {
+  if (!grantId) return null;
+
+  const template = await prisma.businessPlanTemplate.findUnique({
+    where: { grantId },
+  });
+
+  return template
+    ? (template.sections as unknown as BusinessPlanTemplateSection[])
+    : null;
+};
+
+// 새 사업계획서 data 에 양식 섹션을 채움 (양식 순서, 이미 입력한 섹션은 유지)
+export const applyTemplateToData = (
+  planData: unknown,
+  sections: BusinessPlanTemplateSection[]
+) => {
+  const base = isPlainObject(planData) ? planData : {};
+  const current: JsonRecord = isPlainObject(base.sections) ? base.sections : {};
+  const ordered: JsonRecord = {};
+
+  for (const section of sections) {
+    const existing = isPlainObject(current[section.key]) ? current[section.key] : {};
+    ordered[section.key] = {
+      ...existing,
+      title: existing.title || section.title,
+      subSections:
+        existing.subSections ??
+        (section.subSections ?? []).map((subTitle) => ({ subTitle, content: {} })),
+    };
+  }
+
+  // 양식에 없는 섹션은 뒤에 그대로 둠
+  for (const [key, section] of Object.entries(current)) {
+    if (!hasOwn(ordered, key)) ordered[key] = section;
+  }
+
+  return { ...base, sections: ordered };
+};
+
+// 값의 글자 수 (배열/객체는 포함된 문자열을 모두 합산)
+export const textLength = (value: unknown): number => {
+  if (value === null || value === undefined) return 0;
+  if (Array.isArray(value)) return value.reduce((sum: number, item) => sum + textLength(item), 0);
+  if (isPlainObject(value)) {
+    return Object.values(value).reduce((sum: number, item) => sum + textLength(item), 0);
+  }
+  return String(value).trim().length;
+};
+
+// 섹션에서 항목 값 찾기 (섹션 data 우선, 없으면 하위 섹션 content)
+export const findFieldValue = (section: JsonRecord, key: string) => {
+  if (isPlainObject(section.data) && hasOwn(section.data, key)) {
+    return section.data[key];
+  }
+
+  const subSections: unknown[] = Array.isArray(section.subSections) ? section.subSections : [];
+  for (const subSection of subSections) {
+    if (isPlainObject(subSection) && isPlainObject(subSection.content)) {
+      if (hasOwn(subSection.content, key)) return subSection.content[key];
+    }
+  }
+
+  return undefined;
+};
+
+export const sectionLength = (section: JsonRecord) => {
+  const subSections: unknown[] = Array.isArray(section.subSections) ? section.subSections : [];
+  return (
+    textLength(section.data) +
+    subSections.reduce(
+      (sum: number, subSection) =>
+        sum + (isPlainObject(subSection) ? textLength(subSection.content) : 0),
+      0
+    )
+  );
+};
+
+// 양식 조건 검사 (글자 수 제한은 항상, 필수 섹션/항목은 requireFields 일 때만)
+export const checkTemplateRules = (
+  planData: unknown,
+  sections: BusinessPlanTemplateSection[],
+  options: { requireFields: boolean }
+): FieldError[] => {
+  const errors: FieldError[] = [];
+  const data = isPlainObject(planData) ? planData : {};
+  const planSections: JsonRecord = isPlainObject(data.sections) ? data.sections : {};
+
+  for (const templateSection of sections) {
+    const path = `data.sections.${templateSection.key}`;
+    const section = hasOwn(planSections, templateSection.key)
+      ? planSections[templateSection.key]
+      : undefined;
+
+    if (!isPlainObject(section) || sectionLength(section) === 0) {
+      if (options.requireFields && templateSection.required) {
+        errors.push({ field: path, message: `${templateSection.title} 섹션은 필수입니다.` });
+      }
+      if (!isPlainObject(section)) continue;
+    }
+
+    const length = sectionLength(section);
+    if (templateSection.maxLength && length > templateSection.maxLength) {
+      errors.push({
+        field: path,
+        message: `${templateSection.title} 섹션은 ${templateSection.maxLength}자 이하여야 합니다. (현재 ${length}자)`,
+      });
+    }
+
+    for (const field of templateSection.fields ?? []) {
+      const label = field.label || field.key;
+      const fieldLength = textLength(findFieldValue(section, field.key));
+
+      if (options.requireFields && field.required && fieldLength === 0) {
+        errors.push({
+          field: `${path}.${field.key}`,
+          message: `${templateSection.title} - ${label} 항목은 필수입니다.`,
+        });
+      }
+      if (field.maxLength && fieldLength > field.maxLength) {
+        errors.push({
+          field: `${path}.${field.key}`,
+          message: `${templateSection.title} - ${label} 항목은 ${field.maxLength}자 이하여야 합니다. (현재 ${fieldLength}자)`,
+        });
+      }
+    }
+  }
+
+  return errors;
+};
+
+// 지원사업 양식 조건을 충족하지 않으면 400 (작성 완료 이후 상태는 필수 항목까지 검사)
+export const assertTemplateRules = (
+  planData: unknown,
+  sections: BusinessPlanTemplateSection[] | null,
+  status: BusinessPlanStatus | string
+) => {
+  if (!sections) return;
+
+  const errors = checkTemplateRules(planData, sections, {
+    requireFields: COMPLETED_STATUSES.includes(status as BusinessPlanStatus),
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors, "지원사업 양식 조건을 충족하지 않습니다.");
+  }
+};
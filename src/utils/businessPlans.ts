@@ -0,0 +1,216 @@
+import { Request, Response } from "express";
+import { BusinessPlan, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "../middlewares/error.middleware";
+import {
+  ensureBaselineRevision,
+  getChangedFields,
+  recordRevision,
+} from "./businessPlanRevisions";
+import { assertTemplateRules, findTemplateSections } from "./businessPlanTemplates";
+import { assertStatusTransition, recordStatusChange } from "./businessPlanStatus";
+
+type BusinessPlanWithGrant = BusinessPlan & {
+  grant?: { id: string; title: string } | null;
+};
+
+// 응답에 포함할 지원사업 정보
+export const BUSINESS_PLAN_INCLUDE = {
+  grant: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+} satisfies Prisma.BusinessPlanInclude;
+
+// 사업계획서 응답 형식
+export const formatBusinessPlan = (plan: BusinessPlanWithGrant) => ({
+  id: plan.id,
+  title: plan.title,
+  grantId: plan.grantId,
+  grantTitle: plan.grant?.title || null,
+  content: plan.content,
+  data: plan.data ?? null,
+  status: plan.status,
+  version: plan.version,
+  userId: plan.userId,
+  createdAt: plan.createdAt,
+  updatedAt: plan.updatedAt,
+});
+
+// 사업계획서 ETag (버전 기반 강한 검증자)
+export const getBusinessPlanEtag = (plan: Pick<BusinessPlan, "id" | "version">) =>
+  `"${plan.id}:${plan.version}"`;
+
+// 클라이언트가 기준으로 삼은 버전 (If-Match 헤더 또는 version 필드)
+// 둘 다 없으면 null (버전 검사 생략), If-Match 가 다른 사업계획서의 ETag 면 412
+export const getExpectedVersion = (req: Request, businessPlanId: string): number | null => {
+  const ifMatch = req.get("If-Match");
+
+  if (ifMatch && ifMatch.trim() !== "*") {
+    const match = ifMatch.match(/^(?:W\/)?"([^":]+):(\d+)"$/);
+    if (!match) {
+      throw new BadRequestError("If-Match 헤더 형식이 올바르지 않습니다.");
+    }
+    if (match[1] !== businessPlanId) {
+      throw new AppError("If-Match 헤더가 다른 사업계획서의 ETag 입니다.", 412);
+    }
+    return Number(match[2]);
+  }
+
+  const version = req.body?.version ?? req.query.version;
+  if (version === undefined || version === null || version === "") {
+    return null;
+  }
+
+  const parsed = Number(version);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new BadRequestError("version 은 1 이상의 정수여야 합니다.");
+  }
+
+  return parsed;
+};
+
+// 다른 곳에서 먼저 수정된 경우 현재 서버 상태와 함께 409 응답
+export const throwVersionConflict = (current: BusinessPlanWithGrant): never => {
+  throw new ConflictError(
+    "다른 곳에서 사업계획서가 먼저 수정되었습니다. 최신 내용을 확인한 후 다시 저장해주세요.",
+    { current: formatBusinessPlan(current) }
+  );
+};
+
+// 현재 서버 상태를 다시 읽어 409 응답 (조건부 수정이 실패한 경우)
+export const rejectStaleBusinessPlan = async (id: string): Promise<never> => {
+  const current = await prisma.businessPlan.findUnique({
+    where: { id },
+    include: BUSINESS_PLAN_INCLUDE,
+  });
+
+  if (!current) {
+    throw new NotFoundError("사업계획서를 찾을 수 없습니다.");
+  }
+
+  return throwVersionConflict(current);
+};
+
+// 읽은 시점의 버전이 그대로일 때만 수정하고 버전을 1 증가
+// 그 사이 다른 요청이 먼저 수정했다면 null 반환
+export const updateBusinessPlanIfVersion = async (
+  tx: Prisma.TransactionClient,
+  id: string,
+  version: number,
+  data: Prisma.BusinessPlanUpdateManyMutationInput
+) => {
+  const { count } = await tx.businessPlan.updateMany({
+    where: { id, version },
+    data: { ...data, version: { increment: 1 } },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return tx.businessPlan.findUniqueOrThrow({
+    where: { id },
+    include: BUSINESS_PLAN_INCLUDE,
+  });
+};
+
+// 기대 버전과 현재 버전이 다르면 409
+export const assertBusinessPlanVersion = (
+  plan: BusinessPlanWithGrant,
+  expectedVersion: number | null
+) => {
+  if (expectedVersion !== null && expectedVersion !== plan.version) {
+    throwVersionConflict(plan);
+  }
+};
+
+// 읽어 둔 사업계획서 기준으로 저장하고 리비전 기록 (그 사이 수정되었으면 409)
+// 지원사업 양식 조건을 충족하지 않거나 허용되지 않은 상태 전환이면 400
+export const saveBusinessPlan = async (
+  businessPlan: BusinessPlan,
+  userId: string,
+  data: Prisma.BusinessPlanUpdateManyMutationInput,
+  options: {
+    restoredFromRevision?: number;
+    // 상태 변경 내역에 남길 메모 (예: 지원 결과)
+    statusNote?: string | null;
+    // 저장과 같은 트랜잭션에서 처리할 작업 (예: 이용권 차감, 실패하면 저장도 취소)
+    onSaved?: (tx: Prisma.TransactionClient, saved: BusinessPlanWithGrant) => Promise<void>;
+  } = {}
+) => {
+  const statusChanged =
+    data.status !== undefined && data.status !== businessPlan.status;
+  if (statusChanged) {
+    assertStatusTransition(businessPlan.status, data.status);
+  }
+
+  // data 나 상태를 바꾸는 경우 지원사업 양식 조건 검사
+  if (data.data !== undefined || data.status !== undefined) {
+    assertTemplateRules(
+      data.data !== undefined ? data.data : businessPlan.data,
+      await findTemplateSections(businessPlan.grantId),
+      typeof data.status === "string" ? data.status : businessPlan.status
+    );
+  }
+
+  const saved = await prisma.$transaction(async (tx) => {
+    const updated = await updateBusinessPlanIfVersion(
+      tx,
+      businessPlan.id,
+      businessPlan.version,
+      data
+    );
+
+    if (!updated) {
+      return null;
+    }
+
+    const changedFields = getChangedFields(businessPlan, updated);
+    if (changedFields.length > 0 || options.restoredFromRevision !== undefined) {
+      await ensureBaselineRevision(tx, businessPlan);
+      await recordRevision(tx, updated, {
+        authorId: userId,
+        changedFields,
+        restoredFromRevision: options.restoredFromRevision,
+      });
+    }
+
+    if (statusChanged) {
+      await recordStatusChange(tx, {
+        businessPlanId: businessPlan.id,
+        fromStatus: businessPlan.status,
+        toStatus: updated.status,
+        note: options.statusNote,
+        authorId: userId,
+      });
+    }
+
+    await options.onSaved?.(tx, updated);
+
+    return updated;
+  });
+
+  if (!saved) {
+    return rejectStaleBusinessPlan(businessPlan.id);
+  }
+
+  return saved;
+};
+
+// 사업계획서 응답 (ETag 포함)
+export const sendBusinessPlan = (
+  res: Response,
+  plan: BusinessPlanWithGrant,
+  statusCode: number = 200
+) => {
+  res.setHeader("ETag", getBusinessPlanEtag(plan));
+  return res.status(statusCode).json(formatBusinessPlan(plan));
+};
@@ -0,0 +1,134 @@
+import { CompanyProfile } from "@prisma/client";
+import { FounderGender, RevenueBand } from "../types";
+
+// 시/도 목록
+export const REGIONS = [
+  "서울",
+  "부산",
+  "대구",
+  "인천",
+  "광주",
+  "대전",
+  "울산",
+  "세종",
+  "경기",
+  "강원",
+  "충북",
+  "충남",
+  "전북",
+  "전남",
+  "경북",
+  "경남",
+  "제주",
+];
+
+// 매출 규모 구간 라벨
+export const REVENUE_BAND_LABELS: Record<RevenueBand, string> = {
+  none: "매출 없음",
+  under_100m: "1억원 미만",
+  "100m_1b": "1억원 이상 10억원 미만",
+  "1b_10b": "10억원 이상 100억원 미만",
+  over_10b: "100억원 이상",
+};
+
+const FOUNDER_GENDER_LABELS: Record<FounderGender, string> = {
+  male: "남성",
+  female: "여성",
+};
+
+// 사업자등록번호 정규화 (하이픈/공백 제거)
+export const normalizeBusinessRegistrationNumber = (value: string) =>
+  value.replace(/[\s-]/g, "");
+
+// 사업자등록번호 검증 (10자리 + 국세청 검증번호)
+export const isValidBusinessRegistrationNumber = (value: string) => {
+  const digits = normalizeBusinessRegistrationNumber(value);
+  if (!/^\d{10}$/.test(digits)) return false;
+
+  const weights = [1, 3, 7, 1, 3, 7, 1, 3, 5];
+  const nums = digits.split("").map(Number);
+  let sum = weights.reduce((acc, weight, i) => acc + weight * nums[i]!, 0);
+  sum += Math.floor((nums[8]! * 5) / 10);
+
+  return (10 - (sum % 10)) % 10 === nums[9];
+};
+
+// 만 나이 계산
+export const getAge = (birthDate: Date, now: Date = new Date()) => {
+  let age = now.getFullYear() - birthDate.getFullYear();
+  const beforeBirthday =
+    now.getMonth() < birthDate.getMonth() ||
+    (now.getMonth() === birthDate.getMonth() && now.getDate() < birthDate.getDate());
+  return beforeBirthday ? age - 1 : age;
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatBusinessRegistrationNumber = (digits: string) =>
+  `${digits.slice(0, 3)}-${digits.slice(3, 5)}-${digits.slice(5)}`;
+
+// 기업 정보 응답 형식
+export const formatCompanyProfile = (profile: CompanyProfile) => ({
+  companyName: profile.companyName,
+  businessRegistrationNumber: profile.businessRegistrationNumber,
+  foundedAt: profile.foundedAt ? formatDate(profile.foundedAt) : null,
+  industryCode: profile.industryCode,
+  region: profile.region,
+  employeeCount: profile.employeeCount,
+  revenueBand: profile.revenueBand,
+  founderBirthDate: profile.founderBirthDate
+    ? formatDate(profile.founderBirthDate)
+    : null,
+  founderAge: profile.founderBirthDate ? getAge(profile.founderBirthDate) : null,
+  founderGender: profile.founderGender,
+  updatedAt: profile.updatedAt,
+});
+
+// 기업 정보 → 사업계획서 일반현황(generalStatus) 섹션 데이터
+// DOCX 내보내기는 section.data 의 키를 그대로 라벨로 출력하므로 한글 키를 사용
+export const buildGeneralStatusData = (profile: CompanyProfile) => {
+  const data: Record<string, string> = {};
+
+  if (profile.companyName) data["기업명"] = profile.companyName;
+  if (profile.businessRegistrationNumber)
+    data["사업자등록번호"] = formatBusinessRegistrationNumber(
+      profile.businessRegistrationNumber
+    );
+  data["개업연월일"] = profile.foundedAt ? formatDate(profile.foundedAt) : "예비창업";
+  if (profile.industryCode) data["업종(KSIC)"] = profile.industryCode;
+  if (profile.region) data["소재지"] = profile.region;
+  if (profile.employeeCount !== null) data["종업원 수"] = `${profile.employeeCount}명`;
+  if (profile.revenueBand)
+    data["매출 규모"] =
+      REVENUE_BAND_LABELS[profile.revenueBand as RevenueBand] ?? profile.revenueBand;
+  if (profile.founderBirthDate)
+    data["대표자 연령"] = `만 ${getAge(profile.founderBirthDate)}세`;
+  if (profile.founderGender)
+    data["대표자 성별"] =
+      FOUNDER_GENDER_LABELS[profile.founderGender as FounderGender] ??
+      profile.founderGender;
+
+  return data;
+};
+
+// 사업계획서 data 에 일반현황을 채움 (사용자가 이미 입력한 값이 우선)
+export const prefillGeneralStatus = (planData: any, profile: CompanyProfile) => {
+  const base = planData && typeof planData === "object" ? planData : {};
+  const sections = base.sections ?? {};
+  const generalStatus = sections.generalStatus ?? {};
+
+  return {
+    ...base,
+    sections: {
+      ...sections,
+      generalStatus: {
+        ...generalStatus,
+        title: generalStatus.title || "일반현황",
+        data: {
+          ...buildGeneralStatusData(profile),
+          ...(generalStatus.data ?? {}),
+        },
+      },
+    },
+  };
+};
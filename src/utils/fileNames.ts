@@ -0,0 +1,43 @@
+// 파일 시스템/압축 프로그램에서 문제가 되는 문자 (경로 구분자, 예약 문자, 제어 문자)
+const UNSAFE_FILE_NAME_CHARS = /[\\/:*?"<>|\u0000-\u001f\u007f]/g;
+
+const MAX_FILE_NAME_LENGTH = 100;
+
+// 한글 등은 그대로 두고 위험한 문자만 제거한 파일명 (비어 있으면 fallback)
+// suffix (예: " (2)") 는 길이 제한으로 잘리지 않도록 자른 이름 뒤에 붙임
+export const toSafeFileName = (
+  name: string,
+  extension: string,
+  fallback: string,
+  suffix: string = ""
+) => {
+  const base =
+    name
+      .normalize("NFC")
+      .replace(UNSAFE_FILE_NAME_CHARS, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      // 숨김 파일/상위 경로로 해석되지 않도록 앞뒤 마침표 제거
+      .replace(/^\.+|\.+$/g, "")
+      .slice(0, MAX_FILE_NAME_LENGTH - suffix.length)
+      .trim() || fallback;
+
+  return `${base}${suffix}.${extension}`;
+};
+
+// RFC 5987 인코딩 (encodeURIComponent 가 남겨두는 문자 중 허용되지 않는 것까지 인코딩)
+const encodeRfc5987 = (value: string) =>
+  encodeURIComponent(value).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+// 다운로드용 Content-Disposition
+// filename* 는 UTF-8 원래 이름, filename 은 이를 지원하지 않는 클라이언트용 ASCII 이름
+export const buildAttachmentDisposition = (fileName: string, asciiFallback: string) => {
+  const fallback = /^[\x20-\x7e]+$/.test(fileName)
+    ? fileName.replace(/["\\]/g, "_")
+    : asciiFallback;
+
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeRfc5987(fileName)}`;
+};
@@ -0,0 +1,127 @@
+// 한글 금액 단위 (원 기준 배수)
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  조: 1_000_000_000_000,
+  억: 100_000_000,
+  천만: 10_000_000,
+  백만: 1_000_000,
+  십만: 100_000,
+  만: 10_000,
+  천: 1_000,
+  원: 1,
+};
+
+const AMOUNT_TERM_REGEX = /(\d[\d,]*(?:\.\d+)?)\s*(조|억|천만|백만|십만|만|천|원)/g;
+// 두 금액 사이의 범위 구분자 ("~", "부터", "에서", "이상" 등, 최소/최대 수식어는 제거 후 비교)
+const RANGE_SEPARATOR_REGEX =
+  /^\s*(?:원\s*)?(?:(?:이상\s*)?(?:[~\-～〜]|부터|에서)|이상)\s*$/;
+const RANGE_BOUND_WORD_REGEX = /최소|최대/g;
+const MAX_KEYWORD_REGEX = /최대|이내|이하|까지|한도/;
+const MIN_KEYWORD_REGEX = /최소|이상/;
+
+interface ParsedAmount {
+  value: number;
+  start: number;
+  end: number;
+}
+
+// 정규화된 지원금액 범위 (KRW)
+export interface GrantAmountRange {
+  min: number | null;
+  max: number | null;
+}
+
+// 숫자 없이 시작하는 "천만원", "백만원" 은 1천만원, 1백만원으로 간주
+const normalizeAmountText = (text: string) =>
+  text.replace(/(^|[^\d.,])(천만|백만)/g, "$11$2");
+
+// 문자열에서 금액 표현(예: "1억 5천만원", "3,000만원", "1.5억")을 순서대로 추출
+const extractAmounts = (normalized: string): ParsedAmount[] => {
+  const amounts: ParsedAmount[] = [];
+  let lastUnit = Infinity;
+
+  for (const match of normalized.matchAll(AMOUNT_TERM_REGEX)) {
+    const number = parseFloat(match[1]!.replace(/,/g, ""));
+    let unit = UNIT_MULTIPLIERS[match[2]!]!;
+    const start = match.index!;
+    const end = start + match[0].length;
+    const previous = amounts[amounts.length - 1];
+    const isContinuation =
+      previous &&
+      unit < lastUnit &&
+      normalized.slice(previous.end, start).trim() === "";
+
+    // "1억 5천" 처럼 억 다음의 천은 천만 단위로 읽음
+    if (isContinuation && match[2] === "천" && lastUnit === UNIT_MULTIPLIERS.억) {
+      unit = UNIT_MULTIPLIERS.천만!;
+    }
+
+    if (isContinuation) {
+      previous.value += number * unit;
+      previous.end = end;
+    } else {
+      amounts.push({ value: number * unit, start, end });
+    }
+    lastUnit = unit;
+  }
+
+  return amounts.map((amount) => ({ ...amount, value: Math.round(amount.value) }));
+};
+
+// 자유 형식 지원금액 문자열을 최소/최대 금액으로 변환
+// - "최대 1억원" → { min: null, max: 100000000 }
+// - "5천만원 ~ 1억원" → { min: 50000000, max: 100000000 }
+// - "최소 1천만원 ~ 최대 5천만원" → { min: 10000000, max: 50000000 }
+// - "5천만원에서 1억원", "5천만원 이상 1억원 이하" → { min: 50000000, max: 100000000 }
+// - "3,000만원" → { min: 30000000, max: 30000000 }
+export const parseGrantAmount = (
+  text: string | null | undefined
+): GrantAmountRange => {
+  if (!text) {
+    return { min: null, max: null };
+  }
+
+  const normalized = normalizeAmountText(text);
+  const [first, second] = extractAmounts(normalized);
+
+  if (!first) {
+    return { min: null, max: null };
+  }
+
+  if (
+    second &&
+    RANGE_SEPARATOR_REGEX.test(
+      normalized.slice(first.end, second.start).replace(RANGE_BOUND_WORD_REGEX, "")
+    )
+  ) {
+    return {
+      min: Math.min(first.value, second.value),
+      max: Math.max(first.value, second.value),
+    };
+  }
+
+  // 첫 금액 주변의 키워드로 상한/하한 여부 판단
+  const context =
+    normalized.slice(0, first.start) + normalized.slice(first.end, second?.start);
+  if (MAX_KEYWORD_REGEX.test(context)) {
+    return { min: null, max: first.value };
+  }
+  if (MIN_KEYWORD_REGEX.test(context)) {
+    return { min: first.value, max: null };
+  }
+
+  return { min: first.value, max: first.value };
+};
+
+// 지원금액 문자열로부터 DB 저장용 필드 생성
+export const toGrantAmountFields = (text: string | null | undefined) => {
+  const { min, max } = parseGrantAmount(text);
+
+  return {
+    amountMin: min === null ? null : BigInt(min),
+    amountMax: max === null ? null : BigInt(max),
+  };
+};
+
+// BigInt 금액을 JSON 응답용 숫자로 변환
+export const toAmountNumber = (value: bigint | null) =>
+  value === null ? null : Number(value);
@@ -0,0 +1,42 @@
+import { Prisma } from "@prisma/client";
+
+// 마감임박 기준 (일)
+export const CLOSING_SOON_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// 한국 시간 기준 그날 0시
+// 마감일은 날짜 단위(UTC 0시로 저장)이므로 마감일 당일이 끝날 때까지 모집 중으로 봄
+export const getKstStartOfDay = (date: Date = new Date()) =>
+  new Date(Math.floor((date.getTime() + KST_OFFSET_MS) / DAY_MS) * DAY_MS - KST_OFFSET_MS);
+
+// 마감일이 지났는지 (한국 시간 기준 마감일 다음 날부터)
+export const isDeadlinePassed = (deadline: Date, now: Date = new Date()) =>
+  deadline < getKstStartOfDay(now);
+
+// 마감일이 지나지 않은 지원사업 조건 (마감일이 없으면 포함)
+export const notExpiredDeadlineWhere = (now: Date = new Date()): Prisma.GrantWhereInput => ({
+  OR: [{ deadline: null }, { deadline: { gte: getKstStartOfDay(now) } }],
+});
+
+// 마감일 기준 남은 일수(한국 시간 날짜 기준, 당일은 0) 및 마감임박 여부 계산
+export const getDeadlineInfo = (
+  deadline: Date | null,
+  status: string,
+  now: Date = new Date()
+) => {
+  if (!deadline) {
+    return { daysLeft: null, isClosingSoon: false };
+  }
+
+  const daysLeft = Math.round(
+    (getKstStartOfDay(deadline).getTime() - getKstStartOfDay(now).getTime()) / DAY_MS
+  );
+
+  return {
+    daysLeft,
+    isClosingSoon:
+      status === "open" && daysLeft >= 0 && daysLeft <= CLOSING_SOON_DAYS,
+  };
+};
@@ -0,0 +1,236 @@
+import { CompanyProfile, Grant } from "@prisma/client";
+import { FounderGender, GrantEligibilityCriteria, RevenueBand } from "../types";
+import { REGIONS, REVENUE_BAND_LABELS, getAge } from "./companyProfile";
+
+// 매칭 사유
+export interface GrantMatchReason {
+  type:
+    | "region"
+    | "businessAge"
+    | "industry"
+    | "companySize"
+    | "founder"
+    | "favorite"
+    | "businessPlan";
+  message: string;
+}
+
+// 추천 컨텍스트 (찜/사업계획서 기반 선호도)
+export interface RecommendationContext {
+  favoriteGrantIds: Set<string>;
+  favoriteCategories: Set<string>;
+  favoriteOrganizations: Set<string>;
+  planGrantIds: Set<string>;
+  planCategories: Set<string>;
+}
+
+// 매칭 결과
+export interface GrantMatchResult {
+  eligible: boolean;
+  score: number;
+  reasons: GrantMatchReason[];
+  // 기업 정보가 없어 판단하지 못한 조건
+  unknown: string[];
+}
+
+// 조건별 가중치
+const WEIGHTS = {
+  criterion: 15,
+  favorite: 10,
+  favoriteCategory: 8,
+  favoriteOrganization: 4,
+  businessPlan: 10,
+  planCategory: 8,
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+// 지원자격 조건 JSON 검증 (오류 메시지 목록 반환)
+export const validateEligibilityCriteria = (value: unknown): string[] => {
+  if (value === null || value === undefined) return [];
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return ["지원자격 조건은 객체여야 합니다."];
+  }
+
+  const criteria = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (criteria.regions !== undefined) {
+    if (!isStringArray(criteria.regions) || !criteria.regions.every((r) => REGIONS.includes(r))) {
+      errors.push(`regions 는 ${REGIONS.join(", ")} 중에서 선택한 배열이어야 합니다.`);
+    }
+  }
+  for (const key of ["minBusinessAgeYears", "maxBusinessAgeYears", "maxEmployeeCount", "maxFounderAge"]) {
+    if (criteria[key] !== undefined && !isNonNegativeNumber(criteria[key])) {
+      errors.push(`${key} 는 0 이상의 숫자여야 합니다.`);
+    }
+  }
+  if (criteria.preFounderAllowed !== undefined && typeof criteria.preFounderAllowed !== "boolean") {
+    errors.push("preFounderAllowed 는 boolean 이어야 합니다.");
+  }
+  if (criteria.industryCodes !== undefined && !isStringArray(criteria.industryCodes)) {
+    errors.push("industryCodes 는 KSIC 코드 문자열 배열이어야 합니다.");
+  }
+  if (criteria.revenueBands !== undefined) {
+    if (
+      !isStringArray(criteria.revenueBands) ||
+      !criteria.revenueBands.every((band) => band in REVENUE_BAND_LABELS)
+    ) {
+      errors.push("revenueBands 에 유효하지 않은 매출 구간이 있습니다.");
+    }
+  }
+  if (
+    criteria.founderGender !== undefined &&
+    criteria.founderGender !== "male" &&
+    criteria.founderGender !== "female"
+  ) {
+    errors.push("founderGender 는 male 또는 female 이어야 합니다.");
+  }
+
+  const known = [
+    "regions",
+    "minBusinessAgeYears",
+    "maxBusinessAgeYears",
+    "preFounderAllowed",
+    "industryCodes",
+    "maxEmployeeCount",
+    "revenueBands",
+    "maxFounderAge",
+    "founderGender",
+  ];
+  const unknownKeys = Object.keys(criteria).filter((key) => !known.includes(key));
+  if (unknownKeys.length > 0) {
+    errors.push(`알 수 없는 지원자격 조건입니다: ${unknownKeys.join(", ")}`);
+  }
+
+  return errors;
+};
+
+// 업력 (년, 소수)
+const getBusinessAgeYears = (foundedAt: Date, now: Date) =>
+  (now.getTime() - foundedAt.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+
+// 기업 정보와 지원사업 지원자격 조건을 비교해 점수와 사유 산출
+export const matchGrant = (
+  grant: Grant,
+  profile: CompanyProfile | null,
+  context: RecommendationContext,
+  now: Date = new Date()
+): GrantMatchResult => {
+  const criteria = (grant.eligibilityCriteria ?? {}) as GrantEligibilityCriteria;
+  const reasons: GrantMatchReason[] = [];
+  const unknown: string[] = [];
+  let eligible = true;
+  let score = 0;
+
+  const pass = (type: GrantMatchReason["type"], message: string) => {
+    score += WEIGHTS.criterion;
+    reasons.push({ type, message });
+  };
+
+  // 소재지
+  if (criteria.regions && criteria.regions.length > 0) {
+    if (!profile?.region) unknown.push("region");
+    else if (criteria.regions.includes(profile.region))
+      pass("region", `${profile.region} 소재 기업 지원 대상입니다.`);
+    else eligible = false;
+  }
+
+  // 업력 (예비창업자는 preFounderAllowed 로 판단)
+  const hasAgeRange =
+    criteria.minBusinessAgeYears !== undefined ||
+    criteria.maxBusinessAgeYears !== undefined ||
+    criteria.preFounderAllowed !== undefined;
+  if (hasAgeRange) {
+    if (!profile) {
+      unknown.push("businessAge");
+    } else if (!profile.foundedAt) {
+      if (criteria.preFounderAllowed) pass("businessAge", "예비창업자 지원 대상입니다.");
+      else eligible = false;
+    } else {
+      const { minBusinessAgeYears: min, maxBusinessAgeYears: max } = criteria;
+      const years = getBusinessAgeYears(profile.foundedAt, now);
+      const withinMin = min === undefined || years >= min;
+      const withinMax = max === undefined || years <= max;
+      if (!withinMin || !withinMax) {
+        eligible = false;
+      } else if (min !== undefined || max !== undefined) {
+        // 예비창업자 조건만 있으면 설립된 기업에는 업력 사유를 붙이지 않음
+        const bounds = [
+          ...(min !== undefined ? [`${min}년 이상`] : []),
+          ...(max !== undefined ? [`${max}년 이내`] : []),
+        ];
+        pass("businessAge", `업력 ${bounds.join(" ")} 조건에 해당합니다.`);
+      }
+    }
+  }
+
+  // 업종 (KSIC 코드 접두사 일치)
+  if (criteria.industryCodes && criteria.industryCodes.length > 0) {
+    if (!profile?.industryCode) unknown.push("industry");
+    else if (criteria.industryCodes.some((code) => profile.industryCode!.startsWith(code)))
+      pass("industry", `업종(${profile.industryCode})이 지원 대상 업종에 포함됩니다.`);
+    else eligible = false;
+  }
+
+  // 기업 규모 (종업원 수, 매출 구간)
+  if (criteria.maxEmployeeCount !== undefined) {
+    if (profile?.employeeCount === null || profile?.employeeCount === undefined) unknown.push("employeeCount");
+    else if (profile.employeeCount <= criteria.maxEmployeeCount)
+      pass("companySize", `종업원 ${criteria.maxEmployeeCount}명 이하 기업 대상입니다.`);
+    else eligible = false;
+  }
+  if (criteria.revenueBands && criteria.revenueBands.length > 0) {
+    if (!profile?.revenueBand) unknown.push("revenueBand");
+    else if (criteria.revenueBands.includes(profile.revenueBand as RevenueBand))
+      pass(
+        "companySize",
+        `매출 규모(${REVENUE_BAND_LABELS[profile.revenueBand as RevenueBand]})가 지원 대상입니다.`
+      );
+    else eligible = false;
+  }
+
+  // 대표자 조건 (청년/여성 창업)
+  if (criteria.maxFounderAge !== undefined) {
+    if (!profile?.founderBirthDate) unknown.push("founderAge");
+    else if (getAge(profile.founderBirthDate, now) <= criteria.maxFounderAge)
+      pass("founder", `만 ${criteria.maxFounderAge}세 이하 청년 창업자 대상입니다.`);
+    else eligible = false;
+  }
+  if (criteria.founderGender) {
+    if (!profile?.founderGender) unknown.push("founderGender");
+    else if (profile.founderGender === (criteria.founderGender as FounderGender))
+      pass("founder", criteria.founderGender === "female" ? "여성 창업자 대상입니다." : "대표자 성별 조건에 해당합니다.");
+    else eligible = false;
+  }
+
+  // 찜한 지원사업 기반
+  if (context.favoriteGrantIds.has(grant.id)) {
+    score += WEIGHTS.favorite;
+    reasons.push({ type: "favorite", message: "찜한 지원사업입니다." });
+  } else {
+    if (grant.category && context.favoriteCategories.has(grant.category)) {
+      score += WEIGHTS.favoriteCategory;
+      reasons.push({ type: "favorite", message: `찜한 지원사업과 같은 ${grant.category} 분야입니다.` });
+    }
+    if (context.favoriteOrganizations.has(grant.organization)) {
+      score += WEIGHTS.favoriteOrganization;
+      reasons.push({ type: "favorite", message: `찜한 지원사업과 같은 ${grant.organization} 주관입니다.` });
+    }
+  }
+
+  // 사업계획서 기반
+  if (context.planGrantIds.has(grant.id)) {
+    score += WEIGHTS.businessPlan;
+    reasons.push({ type: "businessPlan", message: "작성 중인 사업계획서의 지원사업입니다." });
+  } else if (grant.category && context.planCategories.has(grant.category)) {
+    score += WEIGHTS.planCategory;
+    reasons.push({ type: "businessPlan", message: `작성한 사업계획서와 같은 ${grant.category} 분야입니다.` });
+  }
+
+  return { eligible, score, reasons, unknown };
+};
@@ -0,0 +1,438 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { GrantContactInfo } from "../types";
+import { toGrantAmountFields } from "./grantAmount";
+
+// 가져오기 파일 형식
+export type GrantImportFormat = "csv" | "json";
+
+// 가져오기 본문 크기 제한 (CSV, JSON 공통)
+export const GRANT_IMPORT_BODY_LIMIT = "5mb";
+
+// 행 단위 처리 결과
+export interface GrantImportRowResult {
+  row: number;
+  externalId: string | null;
+  title: string | null;
+  action: "create" | "update" | "error";
+  grantId?: string;
+  errors?: { field: string; message: string }[];
+}
+
+// 가져오기 결과 보고서
+export interface GrantImportReport {
+  dryRun: boolean;
+  summary: {
+    total: number;
+    created: number;
+    updated: number;
+    failed: number;
+  };
+  rows: GrantImportRowResult[];
+}
+
+// 정규화된 헤더 → Grant 필드 매핑 (영문 필드명과 스프레드시트 한글 헤더 모두 허용)
+const FIELD_ALIASES: Record<string, string> = {
+  externalid: "externalId",
+  외부id: "externalId",
+  공고번호: "externalId",
+  title: "title",
+  제목: "title",
+  사업명: "title",
+  description: "description",
+  설명: "description",
+  사업내용: "description",
+  organization: "organization",
+  기관: "organization",
+  주관기관: "organization",
+  deadline: "deadline",
+  마감일: "deadline",
+  amount: "amount",
+  지원금액: "amount",
+  지원규모: "amount",
+  category: "category",
+  분야: "category",
+  카테고리: "category",
+  status: "status",
+  상태: "status",
+  eligibility: "eligibility",
+  지원자격: "eligibility",
+  신청자격: "eligibility",
+  applicationmethod: "applicationMethod",
+  신청방법: "applicationMethod",
+  requireddocuments: "requiredDocuments",
+  제출서류: "requiredDocuments",
+  contactinfo: "contactInfo",
+  연락처: "contactInfo",
+  contactphone: "contactPhone",
+  전화번호: "contactPhone",
+  contactemail: "contactEmail",
+  이메일: "contactEmail",
+  contactwebsite: "contactWebsite",
+  홈페이지: "contactWebsite",
+  웹사이트: "contactWebsite",
+};
+
+const normalizeHeader = (header: string) =>
+  header.replace(/^\uFEFF/, "").replace(/[\s_-]/g, "").toLowerCase();
+
+// RFC 4180 형식 CSV 파싱 (따옴표, 줄바꿈 포함 셀 지원)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // 완전히 빈 줄 제거
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+};
+
+// 파일 내용을 원시 레코드 배열로 변환 (JSON 배열의 각 항목은 importGrants 에서 검증)
+export const parseGrantFile = (content: string, format: GrantImportFormat): unknown[] => {
+  if (format === "json") {
+    const parsed = JSON.parse(content);
+    const records = Array.isArray(parsed) ? parsed : parsed?.grants;
+    if (!Array.isArray(records)) {
+      throw new Error("JSON 파일은 배열 또는 { grants: [...] } 형식이어야 합니다.");
+    }
+    return records;
+  }
+
+  const [headers, ...rows] = parseCsv(content);
+  if (!headers) {
+    return [];
+  }
+
+  return rows.map((cells) =>
+    Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? ""]))
+  );
+};
+
+// 날짜 문자열 파싱 (2025-02-15, 2025.02.15, 2025/02/15 형식 허용)
+const parseDate = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})\.?$/);
+  const date = match
+    ? new Date(
+        `${match[1]}-${match[2]!.padStart(2, "0")}-${match[3]!.padStart(2, "0")}`
+      )
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const asText = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text === "" ? null : text;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const CONTACT_KEYS = ["phone", "email", "website"] as const;
+
+// 원시 레코드를 Grant 저장 데이터로 매핑하고 필드 단위 오류를 수집
+// - data: 새로 만들 때 저장할 전체 데이터
+// - update: 이미 있는 지원사업에 반영할 데이터 (행에 값이 있는 필드만)
+// - contact: 행에 값이 있는 연락처 항목 (기존 연락처에 덮어씀)
+export const mapGrantRecord = (record: unknown) => {
+  const errors: { field: string; message: string }[] = [];
+  const fields: Record<string, unknown> = {};
+
+  if (!isPlainObject(record)) {
+    errors.push({ field: "row", message: "각 항목은 객체여야 합니다." });
+    record = {};
+  }
+
+  for (const [key, value] of Object.entries(record as Record<string, unknown>)) {
+    const field = FIELD_ALIASES[normalizeHeader(key)];
+    if (field) {
+      fields[field] = value;
+    }
+  }
+
+  // 행에 값이 있는 필드 (CSV 빈 칸은 값이 없는 것으로 보고, JSON null 은 값을 지움)
+  const isProvided = (field: string) =>
+    fields[field] !== undefined && fields[field] !== "";
+
+  const externalId = asText(fields.externalId);
+  const title = asText(fields.title);
+  const organization = asText(fields.organization);
+
+  if (!externalId) {
+    errors.push({ field: "externalId", message: "외부 키(externalId)는 필수 항목입니다." });
+  } else if (externalId.length > 100) {
+    errors.push({ field: "externalId", message: "외부 키는 100자 이하여야 합니다." });
+  }
+  if (!title) {
+    errors.push({ field: "title", message: "제목은 필수 항목입니다." });
+  } else if (title.length > 500) {
+    errors.push({ field: "title", message: "제목은 500자 이하여야 합니다." });
+  }
+  if (!organization) {
+    errors.push({ field: "organization", message: "주관기관은 필수 항목입니다." });
+  } else if (organization.length > 200) {
+    errors.push({ field: "organization", message: "주관기관은 200자 이하여야 합니다." });
+  }
+
+  let deadline: Date | null = null;
+  const deadlineText = asText(fields.deadline);
+  if (deadlineText) {
+    deadline = parseDate(deadlineText);
+    if (!deadline) {
+      errors.push({ field: "deadline", message: "마감일 형식이 올바르지 않습니다." });
+    }
+  }
+
+  const status = asText(fields.status) ?? "open";
+  if (status !== "open" && status !== "closed") {
+    errors.push({ field: "status", message: "상태는 open 또는 closed 여야 합니다." });
+  }
+
+  const amount = asText(fields.amount);
+  if (amount && amount.length > 100) {
+    errors.push({ field: "amount", message: "지원금액은 100자 이하여야 합니다." });
+  }
+
+  // 제출서류: JSON 배열 또는 ; / 줄바꿈 으로 구분된 문자열
+  let requiredDocuments: string[] | null = null;
+  if (Array.isArray(fields.requiredDocuments)) {
+    requiredDocuments = fields.requiredDocuments.map((doc) => String(doc).trim());
+  } else {
+    const docsText = asText(fields.requiredDocuments);
+    if (docsText) {
+      requiredDocuments = docsText.split(/[;\n]/).map((doc) => doc.trim());
+    }
+  }
+  if (requiredDocuments) {
+    requiredDocuments = requiredDocuments.filter(Boolean);
+  }
+
+  // 연락처: contactInfo 객체(JSON) 또는 개별 컬럼
+  let contactInfo: GrantContactInfo | null = null;
+  let rawContact: unknown = fields.contactInfo;
+  if (typeof rawContact === "string" && rawContact.trim().startsWith("{")) {
+    try {
+      rawContact = JSON.parse(rawContact);
+    } catch {
+      errors.push({ field: "contactInfo", message: "연락처 JSON 형식이 올바르지 않습니다." });
+      rawContact = null;
+    }
+  }
+  const contactSource = isPlainObject(rawContact) ? rawContact : {};
+  const contactFields = {
+    phone: fields.contactPhone ?? contactSource.phone,
+    email: fields.contactEmail ?? contactSource.email,
+    website: fields.contactWebsite ?? contactSource.website,
+  };
+  const phone = asText(contactFields.phone);
+  const email = asText(contactFields.email);
+  const website = asText(contactFields.website);
+
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.push({ field: "contactInfo.email", message: "연락처 이메일 형식이 올바르지 않습니다." });
+  }
+  if (website && !/^https?:\/\/\S+$/.test(website)) {
+    errors.push({ field: "contactInfo.website", message: "연락처 웹사이트 URL 형식이 올바르지 않습니다." });
+  }
+  if (phone || email || website) {
+    contactInfo = {
+      ...(phone && { phone }),
+      ...(email && { email }),
+      ...(website && { website }),
+    };
+  }
+
+  const data = {
+    title: title ?? "",
+    organization: organization ?? "",
+    description: asText(fields.description),
+    deadline,
+    amount,
+    ...toGrantAmountFields(amount),
+    category: asText(fields.category),
+    status,
+    closedAt: status === "closed" ? new Date() : null,
+    eligibility: asText(fields.eligibility),
+    applicationMethod: asText(fields.applicationMethod),
+    requiredDocuments: requiredDocuments
+      ? (requiredDocuments as Prisma.InputJsonValue)
+      : Prisma.DbNull,
+    contactInfo: contactInfo
+      ? (contactInfo as Prisma.InputJsonValue)
+      : Prisma.DbNull,
+  };
+
+  const update: Prisma.GrantUpdateInput = {
+    title: data.title,
+    organization: data.organization,
+    ...(isProvided("description") && { description: data.description }),
+    ...(isProvided("deadline") && { deadline }),
+    ...(isProvided("amount") && { amount, ...toGrantAmountFields(amount) }),
+    ...(isProvided("category") && { category: data.category }),
+    // 상태 컬럼이 비어 있으면 기본값(open)으로 되돌리지 않음
+    ...(asText(fields.status) && { status }),
+    ...(isProvided("eligibility") && { eligibility: data.eligibility }),
+    ...(isProvided("applicationMethod") && { applicationMethod: data.applicationMethod }),
+    ...(isProvided("requiredDocuments") && { requiredDocuments: data.requiredDocuments }),
+  };
+
+  const contact: Partial<Record<(typeof CONTACT_KEYS)[number], string | null>> = {};
+  const clearsContact = fields.contactInfo === null;
+  for (const key of CONTACT_KEYS) {
+    if (clearsContact || (contactFields[key] !== undefined && contactFields[key] !== "")) {
+      contact[key] = asText(contactFields[key]);
+    }
+  }
+
+  return { externalId, data, update, contact, errors };
+};
+
+// 기존 연락처에 행의 연락처 항목을 덮어쓴 결과 (모두 비면 null)
+const mergeContactInfo = (
+  current: Prisma.JsonValue | null,
+  contact: Partial<Record<(typeof CONTACT_KEYS)[number], string | null>>
+) => {
+  const merged: Record<string, string> = {};
+  const base = isPlainObject(current) ? current : {};
+
+  for (const key of CONTACT_KEYS) {
+    const value = Object.prototype.hasOwnProperty.call(contact, key) ? contact[key] : base[key];
+    if (typeof value === "string" && value) {
+      merged[key] = value;
+    }
+  }
+
+  return Object.keys(merged).length > 0 ? (merged as Prisma.InputJsonValue) : Prisma.DbNull;
+};
+
+// 레코드 목록을 외부 키 기준으로 upsert (dryRun 이면 보고서만 생성)
+// 이미 있는 지원사업은 파일에 값이 있는 필드만 수정 (빠진 컬럼은 기존 값 유지)
+export const importGrants = async (
+  records: unknown[],
+  options: { dryRun: boolean; format: GrantImportFormat }
+): Promise<GrantImportReport> => {
+  const mapped = records.map((record) => mapGrantRecord(record));
+
+  // 파일 내 중복 외부 키 검사
+  const seen = new Set<string>();
+  for (const entry of mapped) {
+    if (!entry.externalId) continue;
+    if (seen.has(entry.externalId)) {
+      entry.errors.push({
+        field: "externalId",
+        message: "파일 내에 중복된 외부 키입니다.",
+      });
+    }
+    seen.add(entry.externalId);
+  }
+
+  const externalIds = mapped
+    .map((entry) => entry.externalId)
+    .filter((id): id is string => !!id);
+  const existing = await prisma.grant.findMany({
+    where: { externalId: { in: externalIds } },
+    select: { id: true, externalId: true, status: true, contactInfo: true },
+  });
+  const existingByKey = new Map(existing.map((g) => [g.externalId!, g]));
+
+  // CSV는 헤더가 1행이므로 데이터가 2행부터 시작
+  const firstRow = options.format === "csv" ? 2 : 1;
+  const rows: GrantImportRowResult[] = mapped.map((entry, index) => {
+    const base = {
+      row: index + firstRow,
+      externalId: entry.externalId,
+      title: entry.data.title || null,
+    };
+
+    if (entry.errors.length > 0) {
+      return { ...base, action: "error", errors: entry.errors };
+    }
+
+    const grantId = existingByKey.get(entry.externalId!)?.id;
+    return grantId
+      ? { ...base, action: "update", grantId }
+      : { ...base, action: "create" };
+  });
+
+  if (!options.dryRun) {
+    await prisma.$transaction(async (tx) => {
+      for (const [index, entry] of mapped.entries()) {
+        const result = rows[index]!;
+        if (result.action === "error") continue;
+
+        const current = existingByKey.get(entry.externalId!);
+        const grant = current
+          ? await tx.grant.update({
+              where: { id: current.id },
+              data: {
+                ...entry.update,
+                // 상태가 바뀔 때만 마감 시각 기록/해제 (관리자 수정과 동일)
+                ...(typeof entry.update.status === "string" &&
+                  entry.update.status !== current.status && {
+                    closedAt: entry.update.status === "closed" ? new Date() : null,
+                  }),
+                ...(Object.keys(entry.contact).length > 0 && {
+                  contactInfo: mergeContactInfo(current.contactInfo, entry.contact),
+                }),
+              },
+            })
+          : await tx.grant.upsert({
+              where: { externalId: entry.externalId! },
+              create: { ...entry.data, externalId: entry.externalId! },
+              update: entry.update,
+            });
+        result.grantId = grant.id;
+      }
+    }, { timeout: 60000 });
+  }
+
+  return {
+    dryRun: options.dryRun,
+    summary: {
+      total: rows.length,
+      created: rows.filter((r) => r.action === "create").length,
+      updated: rows.filter((r) => r.action === "update").length,
+      failed: rows.filter((r) => r.action === "error").length,
+    },
+    rows,
+  };
+};
@@ -0,0 +1,95 @@
+import { Grant } from "@prisma/client";
+import { getGrantPageUrl } from "./urls";
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// iCalendar TEXT 값 이스케이프 (RFC 5545 3.3.11)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// 75 옥텟 단위 줄 접기 (멀티바이트 문자가 잘리지 않도록 문자 단위로 계산)
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let current = "";
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf-8");
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      chunks.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+};
+
+// 한국 시간 기준 날짜 (YYYYMMDD)
+const toKstDate = (date: Date) =>
+  new Date(date.getTime() + KST_OFFSET_MS).toISOString().slice(0, 10).replace(/-/g, "");
+
+const toUtcTimestamp = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// 지원사업 마감일 → 종일 VEVENT (마감 하루 전 알림 포함)
+const buildGrantEvent = (grant: Grant, now: Date) => {
+  const deadline = grant.deadline!;
+  const nextDay = new Date(deadline.getTime() + 24 * 60 * 60 * 1000);
+  const url = getGrantPageUrl(grant.id);
+  const description = [
+    `주관기관: ${grant.organization}`,
+    ...(grant.applicationMethod ? [`신청방법: ${grant.applicationMethod}`] : []),
+    ...(grant.amount ? [`지원금액: ${grant.amount}`] : []),
+    `자세히 보기: ${url}`,
+  ].join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:grant-${grant.id}@zerocraft`,
+    `DTSTAMP:${toUtcTimestamp(now)}`,
+    `LAST-MODIFIED:${toUtcTimestamp(grant.updatedAt)}`,
+    `DTSTART;VALUE=DATE:${toKstDate(deadline)}`,
+    `DTEND;VALUE=DATE:${toKstDate(nextDay)}`,
+    `SUMMARY:${escapeText(`[마감] ${grant.title}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${url}`,
+    `STATUS:${grant.status === "closed" ? "CANCELLED" : "CONFIRMED"}`,
+    "TRANSP:TRANSPARENT",
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(`${grant.title} 마감 하루 전입니다.`)}`,
+    "TRIGGER:-P1D",
+    "END:VALARM",
+    "END:VEVENT",
+  ];
+};
+
+// 지원사업 목록 → iCalendar 문서 (마감일이 없는 지원사업은 제외)
+export const buildGrantCalendar = (
+  grants: Grant[],
+  calendarName: string,
+  now: Date = new Date()
+) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Zerocraft//Grant Deadlines//KO",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    "X-WR-TIMEZONE:Asia/Seoul",
+    ...grants.filter((grant) => grant.deadline).flatMap((grant) => buildGrantEvent(grant, now)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,196 @@
+import { BadRequestError } from "../middlewares/error.middleware";
+
+// JSON Patch (RFC 6902) 연산
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+const OPERATIONS = ["add", "remove", "replace", "move", "copy", "test"];
+
+const ARRAY_INDEX_PATTERN = /^(0|[1-9]\d*)$/;
+
+// 프로토타입 오염을 막기 위해 허용하지 않는 토큰
+const FORBIDDEN_TOKENS = ["__proto__", "constructor", "prototype"];
+
+const isContainer = (value: unknown): value is Record<string, any> | any[] =>
+  typeof value === "object" && value !== null;
+
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const clone = <T>(value: T): T =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isContainer(a) && isContainer(b) && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasOwn(b, key) && isEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+};
+
+// JSON Pointer (RFC 6901) → 토큰 목록
+export const parseJsonPointer = (pointer: string): string[] => {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new BadRequestError(`올바르지 않은 JSON Pointer 입니다: ${pointer}`);
+  }
+  const tokens = pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+
+  if (tokens.some((token) => FORBIDDEN_TOKENS.includes(token))) {
+    throw new BadRequestError(`사용할 수 없는 경로입니다: ${pointer}`);
+  }
+  return tokens;
+};
+
+// 문서 루트를 감싸 루트 경로("")도 일반 경로처럼 처리
+type Root = { value: unknown };
+
+// 마지막 토큰의 부모와 키 (중간 경로는 자기 속성만 따라감)
+const resolveParent = (root: Root, tokens: string[], pointer: string) => {
+  let parent: any = root;
+  let key = "value";
+
+  for (const token of tokens) {
+    const exists = Array.isArray(parent)
+      ? ARRAY_INDEX_PATTERN.test(key) && Number(key) < parent.length
+      : hasOwn(parent, key);
+    const next = exists ? parent[key] : undefined;
+    if (!isContainer(next)) {
+      throw new BadRequestError(`경로를 찾을 수 없습니다: ${pointer}`);
+    }
+    if (Array.isArray(next) && token !== "-" && !ARRAY_INDEX_PATTERN.test(token)) {
+      throw new BadRequestError(`배열 인덱스가 올바르지 않습니다: ${pointer}`);
+    }
+    parent = next;
+    key = token;
+  }
+
+  return { parent, key };
+};
+
+const getValue = (root: Root, pointer: string) => {
+  const { parent, key } = resolveParent(root, parseJsonPointer(pointer), pointer);
+  const exists = Array.isArray(parent)
+    ? Number(key) < parent.length
+    : hasOwn(parent, key);
+
+  if (!exists) {
+    throw new BadRequestError(`경로를 찾을 수 없습니다: ${pointer}`);
+  }
+  return parent[key];
+};
+
+const addValue = (root: Root, pointer: string, value: unknown) => {
+  const { parent, key } = resolveParent(root, parseJsonPointer(pointer), pointer);
+
+  if (Array.isArray(parent)) {
+    const index = key === "-" ? parent.length : Number(key);
+    if (index > parent.length) {
+      throw new BadRequestError(`배열 인덱스가 범위를 벗어났습니다: ${pointer}`);
+    }
+    parent.splice(index, 0, value);
+    return;
+  }
+
+  parent[key] = value;
+};
+
+const removeValue = (root: Root, pointer: string) => {
+  if (pointer === "") {
+    throw new BadRequestError("문서 전체는 삭제할 수 없습니다.");
+  }
+
+  getValue(root, pointer);
+  const { parent, key } = resolveParent(root, parseJsonPointer(pointer), pointer);
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+};
+
+// 연산 형식 검증
+const assertOperation = (operation: unknown, index: number): JsonPatchOperation => {
+  const op = operation as Partial<JsonPatchOperation> | null;
+
+  if (!isContainer(op) || Array.isArray(op) || !OPERATIONS.includes(op.op as string)) {
+    throw new BadRequestError(`${index}번째 연산의 op 가 올바르지 않습니다.`);
+  }
+  if (typeof op.path !== "string") {
+    throw new BadRequestError(`${index}번째 연산에 path 가 필요합니다.`);
+  }
+  if ((op.op === "move" || op.op === "copy") && typeof op.from !== "string") {
+    throw new BadRequestError(`${index}번째 연산에 from 이 필요합니다.`);
+  }
+  if (
+    (op.op === "add" || op.op === "replace" || op.op === "test") &&
+    !hasOwn(op, "value")
+  ) {
+    throw new BadRequestError(`${index}번째 연산에 value 가 필요합니다.`);
+  }
+
+  return op as JsonPatchOperation;
+};
+
+// JSON Patch 적용 (원본은 변경하지 않고 결과 문서를 반환, 하나라도 실패하면 전체 실패)
+export const applyJsonPatch = <T>(document: T, operations: unknown): T => {
+  if (!Array.isArray(operations)) {
+    throw new BadRequestError("JSON Patch 는 연산 배열이어야 합니다.");
+  }
+
+  const root: Root = { value: clone(document) };
+
+  operations.forEach((operation, index) => {
+    const { op, path, from, value } = assertOperation(operation, index);
+
+    switch (op) {
+      case "add":
+        addValue(root, path, clone(value));
+        break;
+      case "remove":
+        removeValue(root, path);
+        break;
+      case "replace":
+        if (path === "") {
+          root.value = clone(value);
+          break;
+        }
+        removeValue(root, path);
+        addValue(root, path, clone(value));
+        break;
+      case "move": {
+        if (path !== from && path.startsWith(`${from}/`)) {
+          throw new BadRequestError(`${index}번째 연산: 하위 경로로는 이동할 수 없습니다.`);
+        }
+        const moved = getValue(root, from!);
+        removeValue(root, from!);
+        addValue(root, path, moved);
+        break;
+      }
+      case "copy":
+        addValue(root, path, clone(getValue(root, from!)));
+        break;
+      case "test":
+        if (!isEqual(getValue(root, path), value)) {
+          throw new BadRequestError(`${index}번째 연산: test 조건이 일치하지 않습니다 (${path}).`);
+        }
+        break;
+    }
+  });
+
+  return root.value as T;
+};
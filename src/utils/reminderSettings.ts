@@ -0,0 +1,25 @@
+import { ReminderSetting } from "@prisma/client";
+
+// 기본 마감 알림 시점 (D-7, D-3, D-1)
+export const DEFAULT_REMINDER_DAYS = [7, 3, 1];
+
+// 설정 가능한 최대 D-day 및 개수
+export const MAX_REMINDER_DAY = 30;
+export const MAX_REMINDER_COUNT = 5;
+
+// 사용자 알림 설정 (저장된 설정이 없으면 기본값)
+export const resolveReminderSetting = (setting: ReminderSetting | null) => ({
+  enabled: setting?.enabled ?? true,
+  daysBefore: Array.isArray(setting?.daysBefore)
+    ? (setting!.daysBefore as number[])
+    : DEFAULT_REMINDER_DAYS,
+});
+
+// 남은 일수에 해당하는 알림 시점 (남은 일수 이상인 설정 중 가장 작은 값)
+// 예: [7, 3, 1] 에서 남은 일수 5 → 7, 2 → 3
+export const getDueReminderDay = (daysLeft: number, daysBefore: number[]) => {
+  const due = daysBefore
+    .filter((day) => daysLeft <= day)
+    .sort((a, b) => a - b);
+  return due[0] ?? null;
+};
@@ -0,0 +1,38 @@
+import { Response } from "express";
+
+// 연결 유지용 주석 전송 주기
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// Server-Sent Events 응답 시작 (text/event-stream)
+// 반환된 send 로 이벤트 전송, close 로 종료 (클라이언트가 끊으면 onClose 호출)
+export const openEventStream = (res: Response, onClose: () => void) => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // 프록시(nginx) 버퍼링 비활성화
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  let closed = false;
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    onClose();
+  };
+  res.on("close", cleanup);
+
+  return {
+    send: (event: string, data: unknown) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close: () => {
+      cleanup();
+      res.end();
+    },
+  };
+};
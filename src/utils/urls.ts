@@ -0,0 +1,13 @@
+import { Request } from "express";
+
+// 프론트엔드 기본 URL (FRONTEND_URL 이 콤마로 구분된 경우 첫 번째 값)
+export const getFrontendUrl = () =>
+  (process.env.FRONTEND_URL || "http://localhost:3000").split(",")[0]!.trim();
+
+// 외부에서 접근 가능한 API 기본 URL (API_BASE_URL 미설정 시 요청 호스트 기준)
+export const getApiBaseUrl = (req: Request) =>
+  process.env.API_BASE_URL || `${req.protocol}://${req.get("host")}`;
+
+// 지원사업 상세 페이지 URL
+export const getGrantPageUrl = (grantId: string) =>
+  `${getFrontendUrl()}/grants/${grantId}`;